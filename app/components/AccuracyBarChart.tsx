@@ -0,0 +1,71 @@
+import type { CharacterAccuracy } from '~/utils/stats';
+
+interface AccuracyBarChartProps {
+  data: CharacterAccuracy[];
+  title?: string;
+}
+
+const BAR_WIDTH = 24;
+const GAP = 6;
+const CHART_HEIGHT = 120;
+const LABEL_HEIGHT = 36; // Symbol plus attempt count under each bar
+
+// Red below 70%, amber below 90%, green above
+function barColor(accuracy: number): string {
+  if (accuracy < 0.7) return '#ef4444';
+  if (accuracy < 0.9) return '#f59e0b';
+  return '#22c55e';
+}
+
+// One bar per character, height = accuracy, drawn as plain SVG
+export default function AccuracyBarChart({ data, title = 'Accuracy by character' }: AccuracyBarChartProps) {
+  if (data.length === 0) return null;
+  const width = data.length * (BAR_WIDTH + GAP) + GAP;
+  const height = CHART_HEIGHT + LABEL_HEIGHT;
+
+  return (
+    <figure className="w-full overflow-x-auto">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width={Math.max(width, 320)}
+        height={height}
+        role="img"
+        aria-label={title}
+        className="text-gray-600 dark:text-gray-300"
+      >
+        {/* 50% and 90% guides */}
+        {[0.5, 0.9].map(level => (
+          <line
+            key={level}
+            x1={0}
+            x2={width}
+            y1={CHART_HEIGHT * (1 - level)}
+            y2={CHART_HEIGHT * (1 - level)}
+            stroke="currentColor"
+            strokeOpacity={0.2}
+            strokeDasharray="4 3"
+          />
+        ))}
+        {data.map((item, index) => {
+          const x = GAP + index * (BAR_WIDTH + GAP);
+          const barHeight = Math.max(2, item.accuracy * CHART_HEIGHT);
+          return (
+            <g key={item.symbol}>
+              <title>{`${item.symbol}: ${Math.round(item.accuracy * 100)}% of ${item.attempts}`}</title>
+              <rect x={x} y={CHART_HEIGHT - barHeight} width={BAR_WIDTH} height={barHeight} rx={3} fill={barColor(item.accuracy)} />
+              <text x={x + BAR_WIDTH / 2} y={CHART_HEIGHT + 16} textAnchor="middle" fontSize={13} fontWeight="bold" fill="currentColor">
+                {item.symbol}
+              </text>
+              <text x={x + BAR_WIDTH / 2} y={CHART_HEIGHT + 30} textAnchor="middle" fontSize={9} fill="currentColor" fillOpacity={0.7}>
+                {item.attempts}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <figcaption className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {title}, weakest first. Numbers under the bars are attempts; dashed lines mark 50% and 90%.
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,18 @@
+import type { CodeTable } from '~/utils/morseAlphabet';
+
+interface CodeTableBadgeProps {
+  table: CodeTable;
+}
+
+// Small pill showing which Morse code table the current screen is using
+export default function CodeTableBadge({ table }: CodeTableBadgeProps) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 text-xs font-medium"
+      title={table.description}
+    >
+      <span className="font-bold">{table.shortName}</span>
+      <span>{table.name}</span>
+    </span>
+  );
+}
@@ -0,0 +1,68 @@
+import type { ConfusionMatrix } from '~/utils/stats';
+
+interface ConfusionMatrixChartProps {
+  matrix: ConfusionMatrix;
+}
+
+const CELL = 24;
+const HEADER = 28; // Room for the row and column labels
+
+// Heat map of mistakes: rows are the characters asked for, columns what was given instead
+export default function ConfusionMatrixChart({ matrix }: ConfusionMatrixChartProps) {
+  if (matrix.expected.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No mix-ups recorded yet.</p>;
+  }
+  const width = HEADER + matrix.given.length * CELL;
+  const height = HEADER + matrix.expected.length * CELL;
+
+  return (
+    <figure className="w-full overflow-x-auto">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width={width}
+        height={height}
+        role="img"
+        aria-label="Confusion matrix"
+        className="text-gray-600 dark:text-gray-300"
+      >
+        {matrix.given.map((given, column) => (
+          <text key={given} x={HEADER + column * CELL + CELL / 2} y={HEADER - 10} textAnchor="middle" fontSize={12} fill="currentColor">
+            {given}
+          </text>
+        ))}
+        {matrix.expected.map((expected, row) => (
+          <g key={expected}>
+            <text x={HEADER - 10} y={HEADER + row * CELL + CELL / 2 + 4} textAnchor="end" fontSize={12} fontWeight="bold" fill="currentColor">
+              {expected}
+            </text>
+            {matrix.given.map((given, column) => {
+              const count = matrix.counts[expected][given] ?? 0;
+              return (
+                <g key={given}>
+                  <title>{count > 0 ? `${expected} given as ${given}: ${count}` : `${expected} never given as ${given}`}</title>
+                  <rect
+                    x={HEADER + column * CELL + 1}
+                    y={HEADER + row * CELL + 1}
+                    width={CELL - 2}
+                    height={CELL - 2}
+                    rx={3}
+                    fill={count > 0 ? '#ef4444' : 'currentColor'}
+                    fillOpacity={count > 0 ? 0.15 + 0.85 * (count / matrix.max) : 0.06}
+                  />
+                  {count > 0 && (
+                    <text x={HEADER + column * CELL + CELL / 2} y={HEADER + row * CELL + CELL / 2 + 4} textAnchor="middle" fontSize={10} fill="currentColor">
+                      {count}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        ))}
+      </svg>
+      <figcaption className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        Rows: the character asked for. Columns: what was keyed or copied instead.
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { Award, Flame, Lock, Snowflake } from 'lucide-react';
+import {
+  ACHIEVEMENTS,
+  FREEZE_EVERY,
+  GOAL_TARGETS,
+  getGoalProgress,
+  getStreakStatus,
+  setDailyGoal,
+  type DailyGoal,
+  type GoalKind,
+} from '~/utils/motivation';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+
+const NEW_ACHIEVEMENT_MS = 7 * 24 * 60 * 60 * 1000; // Marked as new for a week
+
+// Today's goal, the practice streak and achievements, for the home page
+export default function DailyProgress() {
+  const { progress, update } = useLearnerProgress();
+  const [deviceZone, setDeviceZone] = useState<string | null>(null);
+  const [editingGoal, setEditingGoal] = useState(false);
+
+  // Days are pinned to the zone the learner started in, so travelling does not break the streak
+  useEffect(() => {
+    setDeviceZone(Intl.DateTimeFormat().resolvedOptions().timeZone ?? null);
+  }, []);
+  useEffect(() => {
+    if (progress && deviceZone && progress.motivation.timeZone === null) {
+      update(current => ({ ...current, motivation: { ...current.motivation, timeZone: deviceZone } }));
+    }
+  }, [progress, deviceZone, update]);
+
+  if (!progress) return null;
+  const motivation = progress.motivation;
+  const now = Date.now();
+  const streak = getStreakStatus(motivation, now);
+  const goal = getGoalProgress(motivation.days[streak.today], motivation.goal);
+  const unit = motivation.goal.kind === 'minutes' ? 'minutes' : 'answers';
+
+  const changeGoal = (next: DailyGoal) => {
+    update(current => ({ ...current, motivation: setDailyGoal(current.motivation, next, Date.now()) }));
+  };
+
+  return (
+    <div className="w-full max-w-md mt-10 bg-white dark:bg-gray-800 p-5 rounded-lg shadow-md text-left flex flex-col gap-4">
+      {/* Streak */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Flame size={28} className={streak.current > 0 ? 'text-orange-500' : 'text-gray-300 dark:text-gray-600'} />
+          <div>
+            <p className="text-lg font-semibold text-gray-800 dark:text-gray-100">
+              {streak.current} day{streak.current === 1 ? '' : 's'} in a row
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Best {streak.best}</p>
+          </div>
+        </div>
+        <span
+          className="flex items-center gap-1 text-sm text-sky-600 dark:text-sky-400"
+          title={`A freeze covers a missed day. You earn one every ${FREEZE_EVERY} streak days.`}
+        >
+          <Snowflake size={18} /> {motivation.freezesEnabled ? streak.freezes : 'off'}
+        </span>
+      </div>
+      {streak.freezesNeeded > 0 && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          Meet today&apos;s goal to keep your streak: {streak.freezesNeeded} freeze{streak.freezesNeeded === 1 ? '' : 's'} will cover the missed day{streak.freezesNeeded === 1 ? '' : 's'}.
+        </p>
+      )}
+
+      {/* Daily goal */}
+      <div>
+        <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+          <span>
+            Today: {goal.value} / {goal.target} {unit}
+            {streak.todayDone && <span className="ml-2 font-semibold text-green-600 dark:text-green-400">Goal met!</span>}
+          </span>
+          <button
+            type="button"
+            onClick={() => setEditingGoal(!editingGoal)}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {editingGoal ? 'Done' : 'Change goal'}
+          </button>
+        </div>
+        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
+          <div className="bg-green-500 h-2.5 rounded-full transition-all" style={{ width: `${goal.fraction * 100}%` }} />
+        </div>
+        {editingGoal && (
+          <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-700 dark:text-gray-300">
+            <select
+              value={motivation.goal.kind}
+              onChange={(e) => {
+                const kind = e.target.value as GoalKind;
+                changeGoal({ kind, target: GOAL_TARGETS[kind][1] });
+              }}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+              aria-label="Goal type"
+            >
+              <option value="minutes">Minutes</option>
+              <option value="attempts">Answers</option>
+            </select>
+            <select
+              value={motivation.goal.target}
+              onChange={(e) => changeGoal({ ...motivation.goal, target: Number(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+              aria-label="Goal per day"
+            >
+              {GOAL_TARGETS[motivation.goal.kind].map(target => (
+                <option key={target} value={target}>{target} a day</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={motivation.freezesEnabled}
+                onChange={(e) => update(current => ({ ...current, motivation: { ...current.motivation, freezesEnabled: e.target.checked } }))}
+              />
+              Streak freezes
+            </label>
+            {motivation.timeZone && (
+              <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+                Days follow {motivation.timeZone} time.
+                {deviceZone && deviceZone !== motivation.timeZone && (
+                  <button
+                    type="button"
+                    onClick={() => update(current => ({ ...current, motivation: { ...current.motivation, timeZone: deviceZone } }))}
+                    className="ml-2 text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Switch to {deviceZone}
+                  </button>
+                )}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Achievements */}
+      <div className="grid grid-cols-2 gap-2">
+        {ACHIEVEMENTS.map(achievement => {
+          const unlockedAt = motivation.achievements[achievement.id];
+          const unlocked = unlockedAt !== undefined;
+          const value = Math.min(achievement.target, achievement.progress(motivation));
+          return (
+            <div
+              key={achievement.id}
+              title={achievement.description}
+              className={`flex items-start gap-2 p-2 rounded-md text-xs ${unlocked ? 'bg-yellow-50 dark:bg-yellow-900/30 text-gray-800 dark:text-gray-100' : 'bg-gray-100 dark:bg-gray-700/50 text-gray-500 dark:text-gray-400'}`}
+            >
+              {unlocked ? <Award size={18} className="text-yellow-500 shrink-0" /> : <Lock size={16} className="shrink-0 mt-0.5" />}
+              <div>
+                <p className="font-semibold">
+                  {achievement.title}
+                  {unlocked && now - unlockedAt < NEW_ACHIEVEMENT_MS && <span className="ml-1 text-green-600 dark:text-green-400">New</span>}
+                </p>
+                <p>{achievement.description}{!unlocked && achievement.target > 1 && ` ${value}/${achievement.target}`}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import type { FistMetric, FistReport, KeyedAttempt } from '~/utils/fistAnalysis';
+import SignalTimeline from './SignalTimeline';
+
+interface FistQualityPanelProps {
+  report: FistReport;
+  title?: string;
+  latest?: KeyedAttempt; // Drawn against its ideal timing below the metrics
+}
+
+function formatValue(metric: FistMetric): string {
+  switch (metric.id) {
+    case 'ratio': return `1:${metric.value.toFixed(1)} (ideal 1:${metric.ideal})`;
+    case 'jitter': return `±${Math.round(metric.value * 100)}% of a dit`;
+    default: return `${metric.value.toFixed(1)} dits (ideal ${metric.ideal})`;
+  }
+}
+
+function scoreColor(score: number): string {
+  if (score < 0.5) return 'bg-red-500';
+  if (score < 0.8) return 'bg-amber-500';
+  return 'bg-green-500';
+}
+
+// Collapsible breakdown of how cleanly the learner is sending, from analyzeFist
+export default function FistQualityPanel({ report, title = 'Fist quality', latest }: FistQualityPanelProps) {
+  return (
+    <details className="w-full bg-white dark:bg-gray-800 rounded-lg shadow p-3 text-sm text-gray-700 dark:text-gray-300">
+      <summary className="cursor-pointer font-medium">
+        {title}: {report.score}/100 at ~{Math.round(report.wpm)} WPM
+        {report.advice.length > 0 && <span className="text-amber-600 dark:text-amber-400"> · {report.advice.length} to work on</span>}
+      </summary>
+      <ul className="mt-3 flex flex-col gap-2">
+        {report.metrics.map(metric => (
+          <li key={metric.id}>
+            <div className="flex justify-between gap-2">
+              <span>{metric.label}</span>
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                {formatValue(metric)}
+                {metric.spread !== null && ` ±${Math.round(metric.spread * 100)}%`}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-1">
+              <div className={`${scoreColor(metric.score)} h-1.5 rounded-full`} style={{ width: `${Math.round(metric.score * 100)}%` }}></div>
+            </div>
+            {metric.advice && <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">{metric.advice}</p>}
+          </li>
+        ))}
+      </ul>
+      {latest && latest.timeline.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Last attempt</p>
+          <SignalTimeline morse={latest.morse} keyed={latest.timeline} />
+        </div>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+        Measured against PARIS timing at your own speed, from {report.elements} keyed elements.
+      </p>
+    </details>
+  );
+}
@@ -1,80 +1,188 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react'; // Added useRef
 import MorseInput, { MorseInputHandle } from './MorseInput'; // Import handle type
+import CodeTableBadge from './CodeTableBadge';
+import PlayMorseButton from './PlayMorseButton';
+import MorseDiffView from './MorseDiffView';
+import FistQualityPanel from './FistQualityPanel';
+import { getCodeMap, getCodeTable, type CodeTableId } from '~/utils/morseAlphabet';
+import { buildAudioUrl } from '~/utils/morseWav';
+import { diffMorse, type MorseDiff } from '~/utils/morseDiff';
+import { analyzeFist, FIST_WINDOW, getPressDurations, type KeyedAttempt } from '~/utils/fistAnalysis';
+import type { KeyedElement } from '~/utils/keyer';
 
-// Basic Morse code mapping (uppercase only for now)
-const morseCodeMap: { [key: string]: string } = {
-  'A': '.-', 'B': '-...', 'C': '-.-.', 'D': '-..', 'E': '.', 'F': '..-.',
-  'G': '--.', 'H': '....', 'I': '..', 'J': '.---', 'K': '-.-', 'L': '.-..',
-  'M': '--', 'N': '-.', 'O': '---', 'P': '.--.', 'Q': '--.-', 'R': '.-.',
-  'S': '...', 'T': '-', 'U': '..-', 'V': '...-', 'W': '.--', 'X': '-..-',
-  'Y': '-.--', 'Z': '--..',
-  // Add numbers later if needed
-};
-
-const learningSequence = Object.keys(morseCodeMap); // Learn A-Z
+import {
+  createKochLesson,
+  getNewestCharacter,
+  getUnlockedCharacters,
+  getWindowAccuracy,
+  isLessonMastered,
+  recordKochAttempt,
+  resolveLessonOrder,
+  type KochState,
+} from '~/utils/kochLesson';
+import { createDeck, pickNext, recordReview, type SrsDeck } from '~/utils/srs';
+import { applyAttempt, applyPracticeEvent, createSessionId } from '~/utils/progressStore';
+import { outcomesFromDiff } from '~/utils/stats';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { useSettings } from '~/hooks/useSettings';
+import { settingsToLessonOrder } from '~/utils/settings';
 
 type ValidationState = 'idle' | 'correct' | 'incorrect';
 
-export default function LearningInterface() {
-  const [currentItemIndex, setCurrentItemIndex] = useState(0);
+interface LearningInterfaceProps {
+  codeTableId?: CodeTableId; // Defaults to the table chosen in settings
+  lessonOrder?: string[]; // Custom Koch order, defaults to the settings' order, then LCWO for ITU and the table's letters otherwise
+}
+
+export default function LearningInterface({ codeTableId, lessonOrder }: LearningInterfaceProps) {
+  const settings = useSettings();
+  const codeTable = getCodeTable(codeTableId ?? settings.codeTable);
+  const codeMap = getCodeMap(codeTable);
+  const kochOrder = resolveLessonOrder(codeTable, lessonOrder ?? settingsToLessonOrder({ ...settings, codeTable: codeTable.id }));
+  const [lesson, setLesson] = useState<KochState>(() => createKochLesson({ order: kochOrder }));
+  const { progress, update: updateProgress } = useLearnerProgress();
+  const sessionId = useRef(createSessionId());
+  const [deck, setDeck] = useState<SrsDeck>(createDeck); // Spaced-repetition state per character
+  const [group, setGroup] = useState<string[]>([]); // Current practice group, filled one prompt at a time
+  const promptShownAt = useRef(0); // For response latency
+  const promptRecorded = useRef(false); // Only the first answer to a prompt counts; retries are feedback
+  const [currentItemIndex, setCurrentItemIndex] = useState(0); // Position within the group
   const [validationState, setValidationState] = useState<ValidationState>('idle');
   const [feedbackMessage, setFeedbackMessage] = useState('');
+  const [diff, setDiff] = useState<MorseDiff | null>(null); // Element-level mistakes in the last wrong answer
+  const [keyedAttempts, setKeyedAttempts] = useState<KeyedAttempt[]>([]); // Recent timelines for the fist report
   const morseInputRef = useRef<MorseInputHandle>(null); // Use imported handle type
   const [isMounted, setIsMounted] = useState(false); // State to track client mount
 
+  // The next prompt comes from the SRS scheduler, restricted to unlocked characters
+  const pickPrompt = (fromLesson: KochState, fromDeck: SrsDeck, previous?: string) =>
+    pickNext(fromDeck, { kind: 'character', now: Date.now(), candidates: getUnlockedCharacters(fromLesson), exclude: previous }) ?? getUnlockedCharacters(fromLesson)[0];
+
   // Set mounted state only on the client
   useEffect(() => {
     setIsMounted(true);
   }, []);
 
+  // Restore saved progress once it has loaded, then pick the first prompt
+  useEffect(() => {
+    if (!progress || group.length > 0) return;
+    const restoredLesson = createKochLesson({ order: kochOrder }, progress.koch[codeTable.id]?.unlockedCount);
+    setLesson(restoredLesson);
+    setDeck(progress.srs);
+    setGroup([pickPrompt(restoredLesson, progress.srs)]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [progress]);
 
-  const currentItem = learningSequence[currentItemIndex];
-  const expectedMorse = morseCodeMap[currentItem];
+  const unlocked = getUnlockedCharacters(lesson);
+  const newest = getNewestCharacter(lesson);
+  const currentItem = group[currentItemIndex];
+  const expectedMorse = currentItem ? codeMap[currentItem] : '';
+  const fistReport = analyzeFist(keyedAttempts);
 
-  const handleInputComplete = useCallback((inputMorse: string) => {
-    if (!currentItem) return; // End of sequence
+  const handleInputComplete = useCallback((inputMorse: string, timeline: KeyedElement[]) => {
+    if (!currentItem) return; // Group not generated yet
+    setKeyedAttempts(previous => [...previous, { timeline, morse: inputMorse }].slice(-FIST_WINDOW));
 
-    console.log(`Input Complete: ${inputMorse}, Expected: ${expectedMorse}`); // Debug log
+    const answerDiff = diffMorse(expectedMorse, inputMorse, [currentItem]);
+    const correct = answerDiff.correct;
+    let nextLesson = lesson;
+    let nextDeck = deck;
+    let newCharacter: string | null = null;
+    if (!promptRecorded.current) {
+      promptRecorded.current = true;
+      const result = recordKochAttempt(lesson, correct);
+      nextLesson = result.state;
+      newCharacter = result.unlocked;
+      setLesson(nextLesson);
+      const now = Date.now();
+      const latencyMs = now - promptShownAt.current;
+      nextDeck = recordReview(deck, 'character', currentItem, {
+        correct,
+        latencyMs,
+        hinted: false,
+        time: now,
+      });
+      setDeck(nextDeck);
+      const mastered = isLessonMastered(nextLesson);
+      updateProgress(current => {
+        // Mastery is stored per unlocked count, so a lesson restored after a reload is not credited twice
+        const stored = current.koch[codeTable.id];
+        const justMastered = mastered && stored?.masteredCount !== nextLesson.unlockedCount;
+        const recorded = applyAttempt(
+          {
+            ...current,
+            srs: nextDeck,
+            koch: {
+              ...current.koch,
+              [codeTable.id]: { unlockedCount: nextLesson.unlockedCount, masteredCount: justMastered ? nextLesson.unlockedCount : stored?.masteredCount },
+            },
+          },
+          {
+            sessionId: sessionId.current,
+            mode: 'letters',
+            symbols: [currentItem],
+            correct,
+            time: now,
+            expected: expectedMorse,
+            given: inputMorse,
+            responseMs: latencyMs,
+            pressDurations: getPressDurations(timeline),
+            characters: outcomesFromDiff(answerDiff, codeTable),
+          },
+        );
+        return justMastered ? applyPracticeEvent(recorded, { type: 'lesson-mastered', time: now }) : recorded;
+      });
+    }
 
-    if (inputMorse === expectedMorse) {
+    if (correct) {
       setValidationState('correct');
-      setFeedbackMessage('Correct!');
+      setFeedbackMessage(newCharacter ? `Correct! New character unlocked: ${newCharacter}` : 'Correct!');
       // Automatically move to the next item after a short delay
       setTimeout(() => {
-        if (currentItemIndex < learningSequence.length - 1) {
+        const nextPrompt = pickPrompt(nextLesson, nextDeck, currentItem);
+        if (group.length < nextLesson.options.groupSize) {
+          setGroup(prev => [...prev, nextPrompt]);
           setCurrentItemIndex(prevIndex => prevIndex + 1);
-          setValidationState('idle');
-          setFeedbackMessage('');
-          morseInputRef.current?.clearInput(); // Clear input for the next item
         } else {
-          // Handle completion of the learning sequence
-          setFeedbackMessage('Congratulations! You completed all letters.');
-          // Maybe disable input or show a summary
+          // Group finished: start a new one from everything unlocked so far
+          setGroup([nextPrompt]);
+          setCurrentItemIndex(0);
         }
-      }, 800); // 0.8 second delay
+        setValidationState('idle');
+        setFeedbackMessage('');
+        morseInputRef.current?.clearInput(); // Clear input for the next item
+      }, newCharacter ? 1600 : 800); // Give an unlock message a little longer
     } else {
       setValidationState('incorrect');
-      setFeedbackMessage(`Incorrect. Expected: ${expectedMorse}`);
+      setFeedbackMessage('Incorrect. Try again.');
+      setDiff(answerDiff);
       // Clear input after a delay so user can see the error
        setTimeout(() => {
            setValidationState('idle'); // Reset validation state visually
            setFeedbackMessage(''); // Clear feedback message
+           setDiff(null);
            morseInputRef.current?.clearInput(); // Clear input for retry
-       }, 1500); // 1.5 second delay
+           promptShownAt.current = Date.now();
+       }, 2500); // Long enough to read what went wrong
     }
-  }, [currentItemIndex, currentItem, expectedMorse]);
+    // pickPrompt only reads its arguments
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentItem, expectedMorse, group.length, lesson, deck, updateProgress, codeTable]);
 
    // Reset feedback when the item changes, only if mounted
    useEffect(() => {
     if (isMounted) {
         setValidationState('idle');
         setFeedbackMessage('');
+        setDiff(null);
         morseInputRef.current?.clearInput();
+        promptShownAt.current = Date.now();
+        promptRecorded.current = false;
     }
-   }, [currentItemIndex, isMounted]); // Add isMounted dependency
+   }, [currentItemIndex, group, isMounted]); // Add isMounted dependency
 
   // Render loading or null on the server and initial client render
-  if (!isMounted) {
+  if (!isMounted || !currentItem) {
     // You can return null or a simple loading indicator
     // Returning null is often sufficient to prevent hydration mismatch
     return null;
@@ -84,11 +192,11 @@ export default function LearningInterface() {
 
   // --- Rest of the component logic remains the same, but now runs only after mount ---
 
-  if (!currentItem) {
+  if (isLessonMastered(lesson)) {
     return (
       <div className="text-center p-8">
         <h2 className="text-2xl font-bold text-green-600 dark:text-green-400">Sequence Complete!</h2>
-        <p className="text-lg text-gray-700 dark:text-gray-300 mt-2">You've learned all the letters!</p>
+        <p className="text-lg text-gray-700 dark:text-gray-300 mt-2">You&apos;ve learned all {unlocked.length} characters!</p>
         {/* Add options to restart or move to the next stage */}
       </div>
     );
@@ -98,22 +206,60 @@ export default function LearningInterface() {
     <div className="flex flex-col items-center gap-8 p-4 md:p-8 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl mx-auto">
       {/* Progress Indicator */}
       <div className="w-full text-center">
+        <div className="flex items-center justify-center gap-3 mb-2">
+          <CodeTableBadge table={codeTable} />
+          <a
+            href={buildAudioUrl({ text: unlocked.join(' '), table: codeTable.id })}
+            download
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Download lesson audio
+          </a>
+        </div>
         <p className="text-sm font-medium text-blue-600 dark:text-blue-400">
-          Learning Letters ({currentItemIndex + 1} / {learningSequence.length})
+          Koch Lesson ({unlocked.length} / {lesson.options.order.length} characters)
+          {' · '}Accuracy {Math.round(getWindowAccuracy(lesson) * 100)}% of last {lesson.recent.length}
+          {' '}(need {Math.round(lesson.options.unlockAccuracy * 100)}% over {lesson.options.windowSize})
         </p>
         <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 mt-1">
           <div
             className="bg-blue-500 h-2.5 rounded-full transition-all duration-500 ease-out"
-            style={{ width: `${((currentItemIndex + 1) / learningSequence.length) * 100}%` }}
+            style={{ width: `${(unlocked.length / lesson.options.order.length) * 100}%` }}
           ></div>
         </div>
+        {/* Unlocked characters, newest highlighted */}
+        <div className="flex flex-wrap justify-center gap-1 mt-3">
+          {unlocked.map(char => (
+            <span
+              key={char}
+              className={`px-2 py-0.5 rounded font-mono text-sm ${char === newest ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200'}`}
+            >
+              {char}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Practice group */}
+      <div className="flex gap-2 font-mono text-2xl" aria-label="Practice group">
+        {Array.from({ length: lesson.options.groupSize }, (_, index) => (
+          <span
+            key={index}
+            className={index === currentItemIndex ? 'text-blue-600 dark:text-blue-400 underline' : index < currentItemIndex ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-gray-500'}
+          >
+            {group[index] ?? '_'}
+          </span>
+        ))}
       </div>
 
       {/* Current Item Display */}
       <div className="text-center bg-white dark:bg-gray-700 p-6 rounded-lg shadow-md">
         <p className="text-lg text-gray-600 dark:text-gray-300 mb-2">Enter the Morse code for:</p>
         <p className="text-6xl md:text-8xl font-bold text-gray-900 dark:text-gray-100 tracking-wider">{currentItem}</p>
-        <p className="text-md text-gray-500 dark:text-gray-400 mt-3 font-mono">({expectedMorse})</p>
+        <div className="flex items-center justify-center gap-3 mt-3">
+          <p className="text-md text-gray-500 dark:text-gray-400 font-mono">({expectedMorse})</p>
+          <PlayMorseButton morse={expectedMorse} label={`Play ${currentItem}`} compact />
+        </div>
       </div>
 
       {/* Morse Input Component */}
@@ -121,7 +267,7 @@ export default function LearningInterface() {
         ref={morseInputRef}
         onInputComplete={handleInputComplete}
         validationState={validationState}
-        key={currentItemIndex} // Force re-render with new state when item changes
+        // Not keyed by item: the adaptive keying calibration carries over between letters
       />
 
       {/* Feedback Area */}
@@ -136,6 +282,9 @@ export default function LearningInterface() {
           </p>
         )}
       </div>
+      {diff && validationState === 'incorrect' && <MorseDiffView diff={diff} />}
+
+      {fistReport && <FistQualityPanel report={fistReport} title={`Fist quality, last ${keyedAttempts.length} letters`} latest={keyedAttempts[keyedAttempts.length - 1]} />}
     </div>
   );
 }
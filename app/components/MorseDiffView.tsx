@@ -0,0 +1,60 @@
+import { describeMorseError, elementName, type MorseDiff } from '~/utils/morseDiff';
+
+interface MorseDiffViewProps {
+  diff: MorseDiff;
+}
+
+// What the learner keyed, letter by letter, with the wrong elements marked and
+// one line per mistake. The expected code is not shown, only where it differs.
+export default function MorseDiffView({ diff }: MorseDiffViewProps) {
+  return (
+    <div className="w-full flex flex-col items-center gap-3" aria-label="Mistakes by letter">
+      <div className="flex flex-wrap justify-center gap-2">
+        {diff.letters.map(letter => (
+          <div
+            key={letter.index}
+            className={`flex flex-col items-center px-2 py-1 rounded border ${
+              letter.correct
+                ? 'border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/30'
+                : 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/30'
+            }`}
+          >
+            {letter.label && (
+              <span className={`font-bold text-lg ${letter.correct ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                {letter.label}
+              </span>
+            )}
+            <span className="font-mono text-lg tracking-wider text-gray-800 dark:text-gray-200">
+              {letter.elements.map((pair, index) => (
+                <span
+                  key={index}
+                  title={
+                    pair.op === 'substitute' ? `${elementName(pair.actual)} instead of ${elementName(pair.expected)}`
+                      : pair.op === 'delete' ? `Missing ${elementName(pair.expected)}`
+                      : pair.op === 'insert' ? `Extra ${elementName(pair.actual)}`
+                      : undefined
+                  }
+                  className={
+                    pair.op === 'match' ? ''
+                      : pair.op === 'delete' ? 'text-red-400'
+                      : pair.op === 'insert' ? 'text-red-600 dark:text-red-400 line-through'
+                      : 'text-red-600 dark:text-red-400 underline'
+                  }
+                >
+                  {pair.op === 'delete' ? '○' : pair.actual}
+                </span>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+      {diff.errors.length > 0 && (
+        <ul className="text-sm text-red-700 dark:text-red-300 text-center">
+          {diff.errors.map((error, index) => (
+            <li key={index}>{describeMorseError(error, diff)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
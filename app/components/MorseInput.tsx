@@ -1,89 +1,254 @@
 import React, { useState, useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { createSidetone, type AudioOptions, type Sidetone } from '~/utils/morseAudio';
+import { canVibrate, combineSidetones, createHapticSidetone } from '~/utils/morseHaptics';
+import {
+  classifyPress,
+  createCalibration,
+  getCalibrationInfo,
+  getThresholds,
+  recordPress,
+  setManualWpm,
+  type CalibrationInfo,
+} from '~/utils/keyingCalibration';
+import { createKeyer, keyerStep, nextKeyerDeadline, setKeyerOptions, type IambicMode, type KeyedElement, type KeyerEvent, type Paddle } from '~/utils/keyer';
+import { DEFAULT_KEY_BINDINGS, keyAction, readGamepads, type GamepadSnapshot, type InputMode, type KeyBindings } from '~/utils/keyBindings';
+import { decodeMorse } from '~/utils/morseConverter';
+import { LETTER_SEPARATOR, WORD_SEPARATOR } from '~/utils/morseAlphabet';
+import { useAudioOptions, useSettings } from '~/hooks/useSettings';
 
-// Reverse map for translation (only needed if displaying translated text live)
-const morseCodeMap: { [key: string]: string } = {
-  'A': '.-', 'B': '-...', 'C': '-.-.', 'D': '-..', 'E': '.', 'F': '..-.',
-  'G': '--.', 'H': '....', 'I': '..', 'J': '.---', 'K': '-.-', 'L': '.-..',
-  'M': '--', 'N': '-.', 'O': '---', 'P': '.--.', 'Q': '--.-', 'R': '.-.',
-  'S': '...', 'T': '-', 'U': '..-', 'V': '...-', 'W': '.--', 'X': '-..-',
-  'Y': '-.--', 'Z': '--..',
-  '1': '.----', '2': '..---', '3': '...--', '4': '....-', '5': '.....',
-  '6': '-....', '7': '--...', '8': '---..', '9': '----.', '0': '-----',
-  '.': '.-.-.-', ',': '--..--', '?': '..--..', "'": '.----.', '!': '-.-.--',
-  '/': '-..-.', '(': '-.--.', ')': '-.--.-', '&': '.-...', ':': '---...',
-  ';': '-.-.-.', '=': '-...-', '+': '.-.-.', '-': '-....-', '_': '..--.-',
-  '"': '.-..-.', '$': '...-..-', '@': '.--.-.', ' ': '/'
-};
-// No need for reverse map if parent handles validation/translation
-// const reverseMorseCodeMap: { [key: string]: string } = Object.entries(
-//   morseCodeMap
-// ).reduce((acc, [key, value]) => {
-//   acc[value] = key;
-//   return acc;
-// }, {} as { [key: string]: string });
-
-
-// Timing constants
-const ditDuration = 150; // milliseconds for a dot (adjust sensitivity here)
-const dahDuration = ditDuration * 3;
-const symbolSpaceThreshold = ditDuration * 1.5; // Time to distinguish dit/dah
-const interCharSpace = ditDuration * 3; // Standard space between letters/symbols in sequence
-// Word space is not strictly needed here as we validate after each character in letter learning stage
-// const wordSpace = ditDuration * 7;
+// Timing is adaptive: the dit length is learned from the user's recent presses
+// (see keyingCalibration) and the dit/dah and inter-character thresholds follow it.
+// Input mode, keyer mode, a fixed keying speed and the sidetones default to the
+// learner's settings; props override them.
 
 type ValidationState = 'idle' | 'correct' | 'incorrect';
 
+// 'character': one letter per attempt, completed after the inter-character gap.
+// 'stream': letters split on the inter-character gap and words on the word gap;
+//           the whole transmission is completed after a longer pause or with "Done".
+export type KeyingMode = 'character' | 'stream';
+
+// Silence (in dits) after which a stream is considered finished
+const STREAM_END_UNITS = 14;
+
+// Joins letter codes the same way encodeText/wordToMorse do
+const formatStream = (words: string[][]) =>
+  words
+    .filter(word => word.length > 0)
+    .map(word => word.join(LETTER_SEPARATOR))
+    .join(`${LETTER_SEPARATOR}${WORD_SEPARATOR}${LETTER_SEPARATOR}`);
+
 interface MorseInputProps {
-  onInputComplete: (morseCode: string) => void;
+  onInputComplete: (morseCode: string, timeline: KeyedElement[]) => void; // Key-down/key-up times of every element since the last clearInput
   validationState: ValidationState;
+  sidetone?: boolean; // Play a live tone while the key is held
+  hapticSidetone?: boolean; // Vibrate while the key is held, where supported
+  audioOptions?: Partial<AudioOptions>;
+  initialDitMs?: number; // Starting point for the adaptive estimate
+  manualWpm?: number | null; // Fixed keying speed, overrides the estimate while set; null forces adaptive
+  onCalibrationChange?: (info: CalibrationInfo) => void;
+  inputMode?: InputMode; // 'tap': on-screen button, 'straight': keyboard/gamepad straight key, 'paddle': iambic keyer
+  iambicMode?: IambicMode;
+  keyBindings?: KeyBindings;
+  keyingMode?: KeyingMode;
+  onStreamChange?: (morse: string, text: string) => void; // Stream mode: called as letters are decoded
 }
 
 // Define the type for the ref methods
 export interface MorseInputHandle {
   clearInput: () => void;
+  resetCalibration: () => void;
+  getCalibration: () => CalibrationInfo;
+  setManualWpm: (wpm: number | null) => void;
 }
 
 // Use forwardRef to allow parent components to call methods on this component
-const MorseInput = forwardRef<MorseInputHandle, MorseInputProps>(({ onInputComplete, validationState }, ref) => {
+const MorseInput = forwardRef<MorseInputHandle, MorseInputProps>(({
+  onInputComplete,
+  validationState,
+  sidetone = true,
+  hapticSidetone: hapticSidetoneProp,
+  audioOptions: audioOptionsProp,
+  initialDitMs,
+  manualWpm: manualWpmProp,
+  onCalibrationChange,
+  inputMode: inputModeProp,
+  iambicMode: iambicModeProp,
+  keyBindings = DEFAULT_KEY_BINDINGS,
+  keyingMode = 'character',
+  onStreamChange,
+}, ref) => {
+  const settings = useSettings();
+  const settingsAudioOptions = useAudioOptions();
+  const audioOptions = audioOptionsProp ?? settingsAudioOptions;
+  const manualWpm = manualWpmProp === undefined ? settings.keyingWpm : manualWpmProp;
+  const inputMode = inputModeProp ?? settings.inputMode;
+  const iambicMode = iambicModeProp ?? settings.iambicMode;
+  const hapticSidetone = hapticSidetoneProp ?? settings.hapticSidetone;
   const [rawInput, setRawInput] = useState(''); // Shows the raw dots and dashes for the current attempt
   const [isPressing, setIsPressing] = useState(false);
   const pressStartTime = useRef<number | null>(null);
   const lastReleaseTime = useRef<number>(Date.now());
   const charTimer = useRef<NodeJS.Timeout | null>(null);
-  // const wordTimer = useRef<NodeJS.Timeout | null>(null); // Not needed for letter stage
+  const wordTimer = useRef<NodeJS.Timeout | null>(null); // Stream mode only
+  const streamEndTimer = useRef<NodeJS.Timeout | null>(null); // Stream mode only
   const currentMorseChar = useRef('');
+  const timeline = useRef<KeyedElement[]>([]); // Since the last clearInput, for stats and fist analysis
+  const streamWords = useRef<string[][]>([[]]); // Committed letter codes, grouped by word
+  const [streamText, setStreamText] = useState(''); // Decoded text shown under the raw input
+  const sidetoneRef = useRef<Sidetone | null>(null);
+  const calibration = useRef(setManualWpm(createCalibration(initialDitMs), manualWpm));
+  const [calibrationInfo, setCalibrationInfo] = useState<CalibrationInfo>(() => getCalibrationInfo(calibration.current));
+  const keyer = useRef(createKeyer({ mode: iambicMode, ditMs: getThresholds(calibration.current).ditMs }));
+  const keyerTimer = useRef<NodeJS.Timeout | null>(null);
+  const elementTimers = useRef<NodeJS.Timeout[]>([]);
+
+  const updateCalibration = (next: typeof calibration.current) => {
+    calibration.current = next;
+    const info = getCalibrationInfo(next);
+    setCalibrationInfo(info);
+    onCalibrationChange?.(info);
+  };
+
+  // Keep the manual override in sync with the prop
+  useEffect(() => {
+    updateCalibration(setManualWpm(calibration.current, manualWpm));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [manualWpm]);
+
+  // Sidetone lives for the lifetime of the component; audio is created lazily on first press
+  useEffect(() => {
+    const tones: Sidetone[] = [];
+    if (sidetone) tones.push(createSidetone(audioOptions));
+    if (hapticSidetone && canVibrate()) tones.push(createHapticSidetone());
+    if (tones.length === 0) return;
+    const tone = combineSidetones(tones);
+    sidetoneRef.current = tone;
+    return () => {
+      tone.dispose();
+      sidetoneRef.current = null;
+    };
+    // Frequency/volume changes are applied below without recreating the oscillator
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sidetone, hapticSidetone]);
+
+  useEffect(() => {
+    sidetoneRef.current?.setOptions(audioOptions);
+  }, [audioOptions]);
 
   const clearTimers = () => {
     if (charTimer.current) clearTimeout(charTimer.current);
-    // if (wordTimer.current) clearTimeout(wordTimer.current); // Not needed
+    if (wordTimer.current) clearTimeout(wordTimer.current);
+    if (streamEndTimer.current) clearTimeout(streamEndTimer.current);
     charTimer.current = null;
-    // wordTimer.current = null; // Not needed
+    wordTimer.current = null;
+    streamEndTimer.current = null;
+  };
+
+  const clearKeyerTimers = () => {
+    if (keyerTimer.current) clearTimeout(keyerTimer.current);
+    keyerTimer.current = null;
+    elementTimers.current.forEach(clearTimeout);
+    elementTimers.current = [];
   };
 
   // Expose clearInput method via ref
   useImperativeHandle(ref, () => ({
     clearInput() {
       clearTimers();
+      clearKeyerTimers();
+      keyer.current = createKeyer(keyer.current.options);
       setRawInput('');
       currentMorseChar.current = '';
+      timeline.current = [];
+      streamWords.current = [[]];
+      setStreamText('');
       pressStartTime.current = null;
       lastReleaseTime.current = Date.now();
       setIsPressing(false); // Ensure pressing state is reset
-    }
+    },
+    resetCalibration() {
+      updateCalibration(setManualWpm(createCalibration(initialDitMs), manualWpm));
+    },
+    getCalibration() {
+      return getCalibrationInfo(calibration.current);
+    },
+    setManualWpm(wpm) {
+      updateCalibration(setManualWpm(calibration.current, wpm));
+    },
   }));
 
   const completeInputSequence = () => {
     if (currentMorseChar.current) {
-      onInputComplete(currentMorseChar.current);
+      onInputComplete(currentMorseChar.current, timeline.current);
       // Don't clear here, parent will call clearInput via ref after handling
     }
   };
 
-  const handlePressStart = (event: React.MouseEvent | React.TouchEvent) => {
-    event.preventDefault();
+  const appendSymbol = (symbol: string) => {
+    currentMorseChar.current += symbol;
+    setRawInput(prev => prev + symbol); // Append the raw symbol for visual feedback
+  };
+
+  // --- Stream mode ---
+
+  const publishStream = () => {
+    const morse = formatStream(streamWords.current);
+    const text = decodeMorse(morse).text;
+    setStreamText(text);
+    onStreamChange?.(morse, text);
+  };
+
+  const commitLetter = () => {
+    if (!currentMorseChar.current) return;
+    streamWords.current[streamWords.current.length - 1].push(currentMorseChar.current);
+    currentMorseChar.current = '';
+    setRawInput(prev => prev + LETTER_SEPARATOR);
+    publishStream();
+  };
+
+  const commitWord = () => {
+    commitLetter();
+    const words = streamWords.current;
+    if (words[words.length - 1].length === 0) return; // Nothing keyed since the last word gap
+    words.push([]);
+    setRawInput(prev => `${prev.trimEnd()}${LETTER_SEPARATOR}${WORD_SEPARATOR}${LETTER_SEPARATOR}`);
+  };
+
+  const completeStream = () => {
+    clearTimers();
+    commitLetter();
+    const morse = formatStream(streamWords.current);
+    if (morse) onInputComplete(morse, timeline.current);
+    // As in character mode, the parent clears the input via ref once it has handled it
+  };
+
+  // Starts the gap timers after a key-up; `elapsed` is silence that has already passed
+  const scheduleGaps = (elapsed: number) => {
+    clearTimers(); // Clear existing timers before setting new ones
+    const { ditMs, letterGap, wordGap } = getThresholds(calibration.current);
+
+    if (keyingMode === 'character') {
+      charTimer.current = setTimeout(() => {
+        completeInputSequence(); // Signal completion to parent
+        charTimer.current = null; // Timer finished
+      }, letterGap - elapsed); // Time gap to signify end of character input attempt
+      return;
+    }
+
+    charTimer.current = setTimeout(commitLetter, letterGap - elapsed);
+    wordTimer.current = setTimeout(commitWord, wordGap - elapsed);
+    streamEndTimer.current = setTimeout(completeStream, ditMs * STREAM_END_UNITS - elapsed);
+  };
+
+  // --- Straight key (on-screen button, keyboard or gamepad) ---
+
+  const keyDown = () => {
+    if (pressStartTime.current) return; // Already held, e.g. by another device
     clearTimers(); // Clear any pending timers
     setIsPressing(true);
     pressStartTime.current = Date.now();
+    sidetoneRef.current?.keyDown();
 
     // Optional: Check time since last release to potentially auto-complete previous char
     // For letter learning, we might want explicit completion via timer only.
@@ -93,33 +258,139 @@ const MorseInput = forwardRef<MorseInputHandle, MorseInputProps>(({ onInputCompl
     // }
   };
 
-  const handlePressEnd = (event: React.MouseEvent | React.TouchEvent) => {
-    event.preventDefault();
+  const keyUp = () => {
     if (!pressStartTime.current) return;
+    sidetoneRef.current?.keyUp();
 
-    const pressDuration = Date.now() - pressStartTime.current;
-    const symbol = pressDuration < symbolSpaceThreshold ? '.' : '-';
-
-    currentMorseChar.current += symbol;
-    setRawInput(prev => prev + symbol); // Append the raw symbol for visual feedback
+    const releasedAt = Date.now();
+    const pressDuration = releasedAt - pressStartTime.current;
+    // Learn from this press first so the very first dah of a slow sender is not read as a dit
+    updateCalibration(recordPress(calibration.current, pressDuration));
+    const element = classifyPress(calibration.current, pressDuration);
+    timeline.current = [...timeline.current, { element, start: pressStartTime.current, end: releasedAt }];
+    appendSymbol(element);
 
     setIsPressing(false);
     pressStartTime.current = null;
     lastReleaseTime.current = Date.now(); // Record release time
 
-    // Start timer to detect end of character sequence
-    clearTimers(); // Clear existing timers before setting new ones
+    scheduleGaps(0);
+  };
+
+  const handlePressStart = (event: React.MouseEvent | React.TouchEvent) => {
+    event.preventDefault();
+    keyDown();
+  };
+
+  const handlePressEnd = (event: React.MouseEvent | React.TouchEvent) => {
+    event.preventDefault();
+    keyUp();
+  };
+
+  // --- Iambic paddles ---
+  // The keyer produces exact element timings, so its elements are appended as-is
+  // and the character timer starts once it goes idle.
+
+  const feedKeyer = (event: KeyerEvent) => {
+    const { state, started } = keyerStep(keyer.current, event);
+    keyer.current = state;
+    const now = Date.now();
+
+    for (const element of started) {
+      clearTimers();
+      appendSymbol(element.element);
+      timeline.current = [...timeline.current, element];
+      setIsPressing(true);
+      sidetoneRef.current?.keyDown();
+      elementTimers.current.push(setTimeout(() => {
+        setIsPressing(false);
+        sidetoneRef.current?.keyUp();
+        lastReleaseTime.current = Date.now();
+      }, Math.max(0, element.end - now)));
+    }
 
-    charTimer.current = setTimeout(() => {
-      completeInputSequence(); // Signal completion to parent
-      charTimer.current = null; // Timer finished
-    }, interCharSpace); // Time gap to signify end of character input attempt
+    if (keyerTimer.current) clearTimeout(keyerTimer.current);
+    keyerTimer.current = null;
+    const deadline = nextKeyerDeadline(state);
+    if (deadline !== null) {
+      keyerTimer.current = setTimeout(() => feedKeyer({ type: 'tick', time: Date.now() }), Math.max(0, deadline - now));
+    } else if (started.length === 0 && event.type === 'tick') {
+      // Idle: one element gap has already passed since the last element
+      scheduleGaps(getThresholds(calibration.current).ditMs);
+    }
+  };
+
+  const paddleChange = (paddle: Paddle, pressed: boolean) => {
+    feedKeyer({ type: pressed ? 'press' : 'release', paddle, time: Date.now() });
   };
 
+  // Latest handlers for the window/gamepad listeners below, which are bound once
+  const handlers = useRef({ keyDown, keyUp, paddleChange });
+  handlers.current = { keyDown, keyUp, paddleChange };
+
+  // Keyer speed follows the calibrated (or manual) dit length
+  useEffect(() => {
+    keyer.current = setKeyerOptions(keyer.current, { mode: iambicMode, ditMs: calibrationInfo.ditMs });
+  }, [iambicMode, calibrationInfo.ditMs]);
+
+  // Keyboard: straight key or paddles, depending on the input mode
+  useEffect(() => {
+    if (inputMode === 'tap') return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const onKey = (event: KeyboardEvent) => {
+      if (isTyping(event.target)) return;
+      const action = keyAction(event.code, inputMode, keyBindings);
+      if (!action) return;
+      event.preventDefault(); // Space would otherwise scroll the page
+      if (event.repeat) return;
+      const pressed = event.type === 'keydown';
+      if (action.kind === 'straight') {
+        if (pressed) handlers.current.keyDown();
+        else handlers.current.keyUp();
+      } else {
+        handlers.current.paddleChange(action.paddle, pressed);
+      }
+    };
+
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('keyup', onKey);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('keyup', onKey);
+    };
+  }, [inputMode, keyBindings]);
+
+  // Gamepad: the API has no button events, so poll once per frame and diff
+  useEffect(() => {
+    if (inputMode === 'tap' || typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    let previous: GamepadSnapshot = { straight: false, dit: false, dah: false };
+    let frame = 0;
+    const poll = () => {
+      const snapshot = readGamepads(navigator.getGamepads(), keyBindings);
+      if (inputMode === 'straight' && snapshot.straight !== previous.straight) {
+        if (snapshot.straight) handlers.current.keyDown();
+        else handlers.current.keyUp();
+      }
+      if (inputMode === 'paddle') {
+        if (snapshot.dit !== previous.dit) handlers.current.paddleChange('dit', snapshot.dit);
+        if (snapshot.dah !== previous.dah) handlers.current.paddleChange('dah', snapshot.dah);
+      }
+      previous = snapshot;
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [inputMode, keyBindings]);
+
   // Cleanup timers on unmount
   useEffect(() => {
     return () => {
       clearTimers();
+      clearKeyerTimers();
     };
   }, []);
 
@@ -139,28 +410,74 @@ const MorseInput = forwardRef<MorseInputHandle, MorseInputProps>(({ onInputCompl
         <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Your Input:</p>
         {rawInput || <span className="text-gray-400 dark:text-gray-500 text-lg">Tap or hold the button...</span>}
         {isPressing && <span className="animate-pulse text-blue-500">█</span>} {/* Blinking cursor */}
+        {keyingMode === 'stream' && (
+          <p className="mt-2 font-sans text-lg tracking-widest text-blue-700 dark:text-blue-300" aria-live="polite">
+            {streamText || <span className="text-gray-400 dark:text-gray-500 text-sm tracking-normal">Decoded text appears here</span>}
+          </p>
+        )}
       </div>
 
       <div className="flex gap-4 items-center">
-        <button
-          onMouseDown={handlePressStart}
-          onMouseUp={handlePressEnd}
-          onTouchStart={handlePressStart}
-          onTouchEnd={handlePressEnd}
-          className={`select-none px-10 py-5 rounded-full text-white font-bold text-xl transition-all duration-150 focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-gray-900 shadow-lg ${
-            isPressing
-              ? 'bg-red-600 dark:bg-red-700 focus:ring-red-400 dark:focus:ring-red-500 scale-95 shadow-inner'
-              : 'bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600 focus:ring-blue-400 dark:focus:ring-blue-500 active:scale-95'
-          }`}
-          aria-label="Morse Input Button"
-        >
-          Tap / Hold
-        </button>
+        {inputMode === 'paddle' ? (
+          // On-screen paddles: hold either side, squeeze both for iambic keying
+          (['dit', 'dah'] as Paddle[]).map(paddle => (
+            <button
+              key={paddle}
+              onMouseDown={e => { e.preventDefault(); paddleChange(paddle, true); }}
+              onMouseUp={e => { e.preventDefault(); paddleChange(paddle, false); }}
+              onMouseLeave={() => { if (paddle === 'dit' ? keyer.current.ditPressed : keyer.current.dahPressed) paddleChange(paddle, false); }}
+              onTouchStart={e => { e.preventDefault(); paddleChange(paddle, true); }}
+              onTouchEnd={e => { e.preventDefault(); paddleChange(paddle, false); }}
+              className="select-none w-24 py-5 rounded-full text-white font-bold text-2xl bg-blue-600 dark:bg-blue-700 active:bg-red-600 dark:active:bg-red-700 shadow-lg focus:outline-none focus:ring-4 focus:ring-blue-400 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+              aria-label={paddle === 'dit' ? 'Dit paddle' : 'Dah paddle'}
+            >
+              {paddle === 'dit' ? '·' : '—'}
+            </button>
+          ))
+        ) : (
+          <button
+            onMouseDown={handlePressStart}
+            onMouseUp={handlePressEnd}
+            onMouseLeave={handlePressEnd}
+            onTouchStart={handlePressStart}
+            onTouchEnd={handlePressEnd}
+            className={`select-none px-10 py-5 rounded-full text-white font-bold text-xl transition-all duration-150 focus:outline-none focus:ring-4 focus:ring-offset-2 dark:focus:ring-offset-gray-900 shadow-lg ${
+              isPressing
+                ? 'bg-red-600 dark:bg-red-700 focus:ring-red-400 dark:focus:ring-red-500 scale-95 shadow-inner'
+                : 'bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600 focus:ring-blue-400 dark:focus:ring-blue-500 active:scale-95'
+            }`}
+            aria-label="Morse Input Button"
+          >
+            Tap / Hold
+          </button>
+        )}
+        {keyingMode === 'stream' && (
+          <button
+            type="button"
+            onClick={completeStream}
+            disabled={!rawInput}
+            className="px-5 py-3 rounded-md bg-green-600 text-white font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Done
+          </button>
+        )}
         {/* Clear button is now implicitly handled by parent via ref after validation */}
       </div>
 
+      <p className="text-xs text-gray-500 dark:text-gray-400" aria-live="polite">
+        Keying speed: ~{calibrationInfo.wpm} WPM ({calibrationInfo.isManual ? 'manual' : 'adaptive'})
+      </p>
+
        <p className="text-sm text-gray-600 dark:text-gray-400 text-center mt-1 px-4">
-         Tap briefly for Dit (.), hold longer for Dah (-). Pause after inputting the sequence for the letter above.
+         {inputMode === 'paddle'
+           ? 'Left paddle ([ or Left Ctrl) sends dits, right paddle (] or Right Ctrl) sends dahs. Squeeze both to alternate.'
+           : inputMode === 'straight'
+             ? 'Use the button, Space or a gamepad button as a straight key: short press for Dit (.), long press for Dah (-).'
+             : 'Tap briefly for Dit (.), hold longer for Dah (-).'}
+         {' '}
+         {keyingMode === 'stream'
+           ? 'Leave a short pause between letters and a longer one between words, then pause or press Done to submit.'
+           : 'Pause after inputting the sequence for the letter above.'}
        </p>
     </div>
   );
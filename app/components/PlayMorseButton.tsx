@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Pause, Play, Square, Volume2 } from 'lucide-react';
+import { useMorsePlayer } from '~/hooks/useMorsePlayer';
+import type { AudioOptions, PlaybackProgress, PlaybackState } from '~/utils/morseAudio';
+import SignalLamp from './SignalLamp';
+import SignalTimeline from './SignalTimeline';
+
+interface PlayMorseButtonProps {
+  morse: string; // Morse string to play, e.g. '.- -...'
+  label?: string;
+  audioOptions?: Partial<AudioOptions>; // Defaults to the speed, pitch and volume from settings
+  onProgress?: (progress: PlaybackProgress) => void;
+  compact?: boolean; // Icon-only play button, for use next to a single letter
+  showTimeline?: boolean; // On/off strip under the controls, with a playhead while playing
+}
+
+// Play / pause / stop controls around a Morse player; plays as sound, light or both, per settings
+export default function PlayMorseButton({ morse, label = 'Play', audioOptions, onProgress, compact = false, showTimeline = false }: PlayMorseButtonProps) {
+  const { playerRef, lampOn, showLamp } = useMorsePlayer(audioOptions);
+  const [state, setState] = useState<PlaybackState>('idle');
+  const [progress, setProgress] = useState(0);
+  const [elapsed, setElapsed] = useState<number | null>(null);
+
+  const handlePlay = async () => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (state === 'paused') {
+      await player.resume();
+      setState('playing');
+      return;
+    }
+    setState('playing');
+    await player.playMorse(morse, {
+      onProgress: p => {
+        setProgress(p.duration > 0 ? p.elapsed / p.duration : 0);
+        setElapsed(p.elapsed);
+        onProgress?.(p);
+      },
+    });
+    setState('idle');
+    setProgress(0);
+    setElapsed(null);
+  };
+
+  const handlePause = async () => {
+    await playerRef.current?.pause();
+    setState('paused');
+  };
+
+  const handleStop = () => {
+    playerRef.current?.stop();
+    setState('idle');
+    setProgress(0);
+    setElapsed(null);
+  };
+
+  if (compact) {
+    const button = (
+      <button
+        type="button"
+        onClick={state === 'playing' ? handleStop : handlePlay}
+        disabled={!morse}
+        className="inline-flex items-center justify-center w-10 h-10 rounded-full bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800 disabled:opacity-50 transition-colors"
+        aria-label={state === 'playing' ? 'Stop playback' : label}
+        title={label}
+      >
+        {state === 'playing' ? <Square size={16} /> : <Volume2 size={18} />}
+      </button>
+    );
+    return showLamp ? <span className="inline-flex items-center gap-2">{button}<SignalLamp on={lampOn} /></span> : button;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        {showLamp && <SignalLamp on={lampOn} />}
+        {state === 'playing' ? (
+          <button
+            type="button"
+            onClick={handlePause}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+          >
+            <Pause size={18} /> Pause
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handlePlay}
+            disabled={!morse}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Play size={18} /> {state === 'paused' ? 'Resume' : label}
+          </button>
+        )}
+        {state !== 'idle' && (
+          <>
+            <button
+              type="button"
+              onClick={handleStop}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+              aria-label="Stop playback"
+            >
+              <Square size={16} />
+            </button>
+            <div className="w-24 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+              <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${progress * 100}%` }}></div>
+            </div>
+          </>
+        )}
+      </div>
+      {showTimeline && morse && <SignalTimeline morse={morse} audioOptions={audioOptions} elapsed={elapsed} />}
+    </div>
+  );
+}
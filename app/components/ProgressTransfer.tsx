@@ -0,0 +1,63 @@
+import { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { exportProgress, importProgress } from '~/utils/progressStore';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+
+// Export progress to a JSON file and import it on another device
+export default function ProgressTransfer() {
+  const { progress, replace } = useLearnerProgress();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+
+  const handleExport = () => {
+    if (!progress) return;
+    const blob = new Blob([exportProgress(progress)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `morsemuse-progress-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      replace(importProgress(await file.text()));
+      setMessage({ kind: 'success', text: 'Progress imported.' });
+    } catch (error) {
+      setMessage({ kind: 'error', text: error instanceof Error ? error.message : 'Import failed.' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={!progress}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        >
+          <Download size={16} /> Export progress
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!progress}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        >
+          <Upload size={16} /> Import progress
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" aria-label="Progress file" />
+      </div>
+      {message && (
+        <p className={`text-sm ${message.kind === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+interface SignalLampProps {
+  on: boolean;
+  size?: 'small' | 'large';
+}
+
+// Signal lamp for light playback; lit while a dit or dah is "sounding"
+export default function SignalLamp({ on, size = 'small' }: SignalLampProps) {
+  const dimensions = size === 'large' ? 'w-24 h-24' : 'w-8 h-8';
+  return (
+    <span
+      role="img"
+      aria-label={on ? 'Signal on' : 'Signal off'}
+      className={`inline-block ${dimensions} rounded-full border-2 border-amber-500 ${
+        on ? 'bg-amber-300 shadow-[0_0_24px_8px_rgba(252,211,77,0.8)]' : 'bg-gray-300 dark:bg-gray-700'
+      }`}
+    ></span>
+  );
+}
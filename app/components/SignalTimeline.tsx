@@ -0,0 +1,97 @@
+import { useEffect, useRef } from 'react';
+import { useAudioOptions } from '~/hooks/useSettings';
+import { analyzeFist, idealTimeline } from '~/utils/fistAnalysis';
+import type { KeyedElement } from '~/utils/keyer';
+import { DEFAULT_AUDIO_OPTIONS, type AudioOptions } from '~/utils/morseAudio';
+import { buildTimeline, ditLengthMs } from '~/utils/morseTiming';
+
+interface SignalTimelineProps {
+  morse: string;
+  audioOptions?: Partial<AudioOptions>; // Speeds for the ideal lane, defaults to settings
+  elapsed?: number | null; // Playhead in ms; the strip scrolls to keep it in view
+  keyed?: KeyedElement[]; // Learner's keying, drawn against the ideal at the learner's own speed
+}
+
+interface Lane {
+  label: string;
+  segments: { start: number; duration: number }[];
+  color: string;
+}
+
+const PX_PER_DIT = 10;
+const LANE_HEIGHT = 18;
+const LANE_GAP = 6;
+const LABEL_WIDTH = 52;
+
+// Any Morse string as an on/off strip: tone blocks and silences in their true
+// proportions (dit 1, dah 3, gaps 1/3/7 units, stretched gaps for Farnsworth)
+export default function SignalTimeline({ morse, audioOptions: audioOptionsProp, elapsed = null, keyed }: SignalTimelineProps) {
+  const settingsAudioOptions = useAudioOptions();
+  const options = { ...DEFAULT_AUDIO_OPTIONS, ...(audioOptionsProp ?? settingsAudioOptions) };
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  let lanes: Lane[];
+  let unitMs: number;
+  let letters: { label: string; start: number }[] = [];
+  if (keyed && keyed.length > 0) {
+    // Both lanes at the learner's own dit length, so only rhythm differs
+    unitMs = analyzeFist([{ timeline: keyed, morse }])?.unitMs ?? ditLengthMs(options.wpm);
+    const origin = keyed[0].start;
+    lanes = [
+      { label: 'Ideal', segments: idealTimeline(morse, unitMs).map(e => ({ start: e.start, duration: e.end - e.start })), color: '#94a3b8' },
+      { label: 'You', segments: keyed.map(e => ({ start: e.start - origin, duration: e.end - e.start })), color: '#3b82f6' },
+    ];
+  } else {
+    const timeline = buildTimeline(morse, options);
+    unitMs = timeline.units.dit;
+    lanes = [{ label: 'Signal', segments: timeline.segments, color: '#f59e0b' }];
+    letters = timeline.letters.map(letter => ({ label: letter.symbol ?? '?', start: letter.start }));
+  }
+
+  const duration = Math.max(0, ...lanes.flatMap(lane => lane.segments.map(s => s.start + s.duration)));
+  const scale = PX_PER_DIT / unitMs; // px per ms
+  const width = LABEL_WIDTH + duration * scale + PX_PER_DIT;
+  const lanesHeight = lanes.length * (LANE_HEIGHT + LANE_GAP);
+  const height = lanesHeight + (letters.length > 0 ? 16 : 0);
+  const playheadX = elapsed !== null ? LABEL_WIDTH + elapsed * scale : null;
+
+  // Keep the playhead a third of the way into the visible strip
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || playheadX === null) return;
+    container.scrollLeft = Math.max(0, playheadX - container.clientWidth / 3);
+  }, [playheadX]);
+
+  return (
+    <div ref={scrollRef} className="w-full overflow-x-auto">
+      <svg width={width} height={height} role="img" aria-label={`Timing of ${morse}`} className="text-gray-600 dark:text-gray-300">
+        {lanes.map((lane, laneIndex) => {
+          const y = laneIndex * (LANE_HEIGHT + LANE_GAP);
+          return (
+            <g key={lane.label}>
+              <text x={0} y={y + LANE_HEIGHT - 5} fontSize={11} fill="currentColor">{lane.label}</text>
+              <line x1={LABEL_WIDTH} x2={width} y1={y + LANE_HEIGHT / 2} y2={y + LANE_HEIGHT / 2} stroke="currentColor" strokeOpacity={0.2} />
+              {lane.segments.map((segment, index) => (
+                <rect
+                  key={index}
+                  x={LABEL_WIDTH + segment.start * scale}
+                  y={y}
+                  width={Math.max(1, segment.duration * scale)}
+                  height={LANE_HEIGHT}
+                  rx={2}
+                  fill={lane.color}
+                />
+              ))}
+            </g>
+          );
+        })}
+        {letters.map((letter, index) => (
+          <text key={index} x={LABEL_WIDTH + letter.start * scale} y={lanesHeight + 10} fontSize={11} fill="currentColor">
+            {letter.label}
+          </text>
+        ))}
+        {playheadX !== null && <line x1={playheadX} x2={playheadX} y1={0} y2={height} stroke="#ef4444" strokeWidth={2} />}
+      </svg>
+    </div>
+  );
+}
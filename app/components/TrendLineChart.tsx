@@ -0,0 +1,64 @@
+export interface TrendPoint {
+  label: string; // X-axis label, e.g. a day
+  value: number | null; // Gaps in the line where null
+}
+
+interface TrendLineChartProps {
+  points: TrendPoint[];
+  title: string;
+  formatValue?: (value: number) => string;
+  color?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+
+// Line over time with min/max labels on the y axis, drawn as plain SVG
+export default function TrendLineChart({ points, title, formatValue = value => String(Math.round(value)), color = '#3b82f6' }: TrendLineChartProps) {
+  const values = points.map(point => point.value).filter((value): value is number => value !== null);
+  if (values.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">{title}: no data yet.</p>;
+  }
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1; // A flat line sits in the middle
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + (max === min ? plotHeight / 2 : (1 - (value - min) / span) * plotHeight);
+
+  // Break the path wherever a value is missing
+  let path = '';
+  let penDown = false;
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      penDown = false;
+      return;
+    }
+    path += `${penDown ? 'L' : 'M'}${x(index).toFixed(1)},${y(point.value).toFixed(1)} `;
+    penDown = true;
+  });
+
+  return (
+    <figure className="w-full">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-gray-600 dark:text-gray-300" role="img" aria-label={title}>
+        <line x1={PADDING.left} x2={PADDING.left} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} stroke="currentColor" strokeOpacity={0.3} />
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={HEIGHT - PADDING.bottom} y2={HEIGHT - PADDING.bottom} stroke="currentColor" strokeOpacity={0.3} />
+        <text x={PADDING.left - 6} y={y(max) + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatValue(max)}</text>
+        {max !== min && <text x={PADDING.left - 6} y={y(min) + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatValue(min)}</text>}
+        <text x={x(0)} y={HEIGHT - 6} textAnchor={points.length === 1 ? 'middle' : 'start'} fontSize={11} fill="currentColor">{points[0].label}</text>
+        {points.length > 1 && (
+          <text x={x(points.length - 1)} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill="currentColor">{points[points.length - 1].label}</text>
+        )}
+        <path d={path} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+        {points.map((point, index) => point.value !== null && (
+          <circle key={index} cx={x(index)} cy={y(point.value)} r={3} fill={color}>
+            <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption className="text-xs text-gray-500 dark:text-gray-400 text-center">{title}</figcaption>
+    </figure>
+  );
+}
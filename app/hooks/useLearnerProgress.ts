@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { getProgressRepository, type LearnerProgress } from '~/utils/progressStore';
+
+// Loads learner progress on the client and saves every update back to storage.
+// There is one copy per page, shared by every component using the hook, so an
+// import or an update in one of them is seen by all the others and never
+// overwritten by a stale copy. `progress` stays null during SSR and until the
+// first load finishes.
+
+let current: LearnerProgress | null = null;
+let loading: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+function setProgress(next: LearnerProgress) {
+  current = next;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function ensureLoaded() {
+  if (current || loading) return;
+  loading = getProgressRepository()
+    .load()
+    .then(loaded => {
+      // An update or import that landed while loading wins over the stored copy
+      if (!current) setProgress(loaded);
+    })
+    .catch(error => {
+      loading = null; // Let the next mount try again
+      console.error('Failed to load progress:', error);
+    });
+}
+
+export function useLearnerProgress() {
+  const progress = useSyncExternalStore(subscribe, () => current, () => null);
+
+  useEffect(ensureLoaded, []);
+
+  const replace = useCallback((next: LearnerProgress) => {
+    setProgress(next);
+    getProgressRepository()
+      .save(next)
+      .catch(error => console.error('Failed to save progress:', error));
+  }, []);
+
+  // Applies an update to the most recent progress, so back-to-back updates never overwrite each other
+  const update = useCallback((updater: (latest: LearnerProgress) => LearnerProgress) => {
+    if (!current) return;
+    replace({ ...updater(current), updatedAt: Date.now() });
+  }, [replace]);
+
+  return { progress, update, replace };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+import { createMorsePlayer, type AudioOptions, type MorsePlayer } from '~/utils/morseAudio';
+import { createHapticPlayer } from '~/utils/morseHaptics';
+import { combinePlayers, createLampPlayer } from '~/utils/morseVisual';
+import type { PlaybackOutput } from '~/utils/settings';
+import { useAudioOptions, useSettings } from './useSettings';
+
+// Player for the output chosen in settings (or forced by `outputProp`): sound, a
+// flashing lamp, both, or vibration. Created on the client only; `lampOn` drives
+// a SignalLamp while light is on.
+export function useMorsePlayer(audioOptionsProp?: Partial<AudioOptions>, outputProp?: PlaybackOutput) {
+  const settings = useSettings();
+  const playbackOutput = outputProp ?? settings.playbackOutput;
+  const settingsAudioOptions = useAudioOptions();
+  const audioOptions = audioOptionsProp ?? settingsAudioOptions;
+  const playerRef = useRef<MorsePlayer | null>(null);
+  const [lampOn, setLampOn] = useState(false);
+  const showLamp = playbackOutput === 'light' || playbackOutput === 'both';
+
+  useEffect(() => {
+    const players: MorsePlayer[] = [];
+    if (playbackOutput === 'vibration') players.push(createHapticPlayer(audioOptions));
+    if (playbackOutput === 'sound' || playbackOutput === 'both') players.push(createMorsePlayer(audioOptions));
+    if (showLamp) players.push(createLampPlayer(audioOptions, setLampOn));
+    const player = combinePlayers(players);
+    playerRef.current = player;
+    return () => {
+      player.stop();
+      playerRef.current = null;
+    };
+    // Options are pushed separately below so playback is not interrupted on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playbackOutput]);
+
+  useEffect(() => {
+    playerRef.current?.setOptions(audioOptions);
+  }, [audioOptions]);
+
+  return { playerRef, lampOn, showLamp };
+}
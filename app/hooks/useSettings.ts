@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFetcher, useRouteLoaderData } from '@remix-run/react';
+import type { loader as rootLoader } from '~/root';
+import { DEFAULT_SETTINGS, parseSettings, settingsToAudioOptions, type AppSettings } from '~/utils/settings';
+import { useLearnerProgress } from './useLearnerProgress';
+
+// Current settings, as loaded by the root route from the cookie session
+export function useSettings(): AppSettings {
+  const data = useRouteLoaderData<typeof rootLoader>('root');
+  return data?.settings ?? DEFAULT_SETTINGS;
+}
+
+// Audio options derived from settings, stable between renders so players are not reconfigured needlessly
+export function useAudioOptions() {
+  const settings = useSettings();
+  const { characterWpm, effectiveWpm, tonePitch, volume } = settings;
+  return useMemo(
+    () => settingsToAudioOptions(settings),
+    // Only the audio fields matter; the settings object itself is new on every revalidation
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [characterWpm, effectiveWpm, tonePitch, volume],
+  );
+}
+
+// When the cookie is missing (new browser session, cleared cookies) but the
+// client still has a saved copy, send that copy back to the server once
+export function useRestoreSettings() {
+  const data = useRouteLoaderData<typeof rootLoader>('root');
+  const { progress } = useLearnerProgress();
+  const fetcher = useFetcher();
+  const restored = useRef(false);
+
+  useEffect(() => {
+    if (restored.current || !data || data.hasStoredSettings || !progress) return;
+    if (Object.keys(progress.settings).length === 0) return;
+    restored.current = true;
+    const fields = Object.entries(parseSettings(progress.settings)).map(([key, value]) => [key, value === null ? '' : String(value)]);
+    fetcher.submit(Object.fromEntries(fields), { method: 'post', action: '/settings' });
+  }, [data, progress, fetcher]);
+}
@@ -4,8 +4,12 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteLoaderData,
 } from "@remix-run/react";
-import type { LinksFunction, MetaFunction } from "@remix-run/node";
+import type { LinksFunction, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSettings } from "./sessions.server";
+import { useRestoreSettings } from "./hooks/useSettings";
 
 import "./tailwind.css";
 
@@ -30,9 +34,17 @@ export const meta: MetaFunction = () => {
 };
 
 
+// Settings come from the cookie session so SSR renders with the learner's theme and speeds
+export async function loader({ request }: LoaderFunctionArgs) {
+  return json(await getSettings(request));
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  const data = useRouteLoaderData<typeof loader>("root");
+  const theme = data?.settings.theme ?? "system";
+
   return (
-    <html lang="en" className="h-full">
+    <html lang="en" className={`h-full ${theme === "system" ? "" : theme}`}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -49,6 +61,8 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
+  useRestoreSettings();
+
   return (
     <div className="flex flex-col min-h-screen">
       <header className="bg-blue-600 dark:bg-blue-800 text-white p-4 shadow-md">
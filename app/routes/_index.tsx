@@ -1,6 +1,8 @@
 import type { MetaFunction } from "@remix-run/node";
 import { Link } from "@remix-run/react";
-import { BookOpen, Settings, MessageSquare, Type } from 'lucide-react'; // Example icons
+import { AudioWaveform, BarChart3, BookOpen, Gamepad2, Headphones, Languages, Settings, MessageSquare, Timer, Type } from 'lucide-react'; // Example icons
+import DailyProgress from '~/components/DailyProgress';
+import ProgressTransfer from '~/components/ProgressTransfer';
 
 export const meta: MetaFunction = () => {
   return [
@@ -34,20 +36,60 @@ export default function Index() {
           disabled={false} // <-- Button enabled
         />
          <NavButton
-          to="#" // Placeholder link
+          to="/learn/phrases"
           icon={<MessageSquare size={24} />}
           title="Learn Phrases"
           description="Construct simple phrases."
-          disabled={true}
         />
         <NavButton
-          to="#" // Placeholder link
+          to="/learn/receive"
+          icon={<Headphones size={24} />}
+          title="Copy Practice"
+          description="Listen and write down what you hear."
+        />
+        <NavButton
+          to="/drills"
+          icon={<Timer size={24} />}
+          title="Speed Drills"
+          description="Race the clock and climb the speed ladder."
+        />
+        <NavButton
+          to="/game"
+          icon={<Gamepad2 size={24} />}
+          title="Arcade"
+          description="Key the falling letters before they land."
+        />
+        <NavButton
+          to="/translate"
+          icon={<Languages size={24} />}
+          title="Translate"
+          description="Convert between text and Morse, and share it."
+        />
+        <NavButton
+          to="/decode"
+          icon={<AudioWaveform size={24} />}
+          title="Decode Audio"
+          description="Turn a recording or your microphone into text."
+        />
+        <NavButton
+          to="/stats"
+          icon={<BarChart3 size={24} />}
+          title="Statistics"
+          description="See your accuracy, mix-ups and speed."
+        />
+        <NavButton
+          to="/settings"
           icon={<Settings size={24} />}
           title="Settings"
           description="Adjust your preferences."
-          disabled={true}
         />
       </nav>
+
+      <DailyProgress />
+
+      <div className="mt-10">
+        <ProgressTransfer />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,64 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { getCodeTable, isCodeTableId, listCodeTables } from '~/utils/morseAlphabet';
+import { encodeText } from '~/utils/morseConverter';
+import { buildTimeline } from '~/utils/morseTiming';
+import { DEFAULT_WAV_OPTIONS, timelineToWav } from '~/utils/morseWav';
+import { DEFAULT_AUDIO_OPTIONS } from '~/utils/morseAudio';
+
+// Resource route: /audio.wav?text=...&wpm=...&farnsworth=...&freq=...&table=...
+// Renders the text as Morse on the server and returns it as a downloadable WAV file.
+
+const MAX_TEXT_LENGTH = 2000;
+const MAX_DURATION_MS = 15 * 60 * 1000; // Keep a single request bounded
+
+// Reads a numeric query param, falling back when missing and rejecting out-of-range values
+function numberParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Response(`Invalid "${name}": expected a number between ${min} and ${max}.`, { status: 400 });
+  }
+  return value;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const params = new URL(request.url).searchParams;
+  const text = params.get('text')?.trim() ?? '';
+
+  if (!text) {
+    throw new Response('Missing "text" query parameter.', { status: 400 });
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new Response(`"text" is limited to ${MAX_TEXT_LENGTH} characters.`, { status: 400 });
+  }
+
+  const tableId = params.get('table');
+  if (tableId !== null && !isCodeTableId(tableId)) {
+    throw new Response(`Unknown "table": expected one of ${listCodeTables().map(t => t.id).join(', ')}.`, { status: 400 });
+  }
+  const table = getCodeTable(tableId ?? undefined);
+  const wpm = numberParam(params, 'wpm', DEFAULT_AUDIO_OPTIONS.wpm, 5, 60);
+  const farnsworthWpm = numberParam(params, 'farnsworth', Math.min(wpm, DEFAULT_AUDIO_OPTIONS.farnsworthWpm ?? wpm), 1, wpm);
+  const frequency = numberParam(params, 'freq', DEFAULT_WAV_OPTIONS.frequency, 200, 1500);
+
+  const { morse } = encodeText(text, { table });
+  const timeline = buildTimeline(morse, { wpm, farnsworthWpm, table });
+  if (timeline.segments.length === 0) {
+    throw new Response('Nothing in "text" can be sent in Morse.', { status: 400 });
+  }
+  if (timeline.duration > MAX_DURATION_MS) {
+    throw new Response('Requested audio is too long, try a faster speed or shorter text.', { status: 400 });
+  }
+
+  const wav = timelineToWav(timeline, { frequency });
+  return new Response(wav, {
+    headers: {
+      'Content-Type': 'audio/wav',
+      'Content-Length': String(wav.byteLength),
+      'Content-Disposition': 'attachment; filename="morsemuse.wav"',
+      // Output is a pure function of the URL
+      'Cache-Control': 'public, max-age=86400, immutable',
+    },
+  });
+}
@@ -0,0 +1,199 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { getCodeTable } from '~/utils/morseAlphabet';
+import { captureMicrophone, type MicrophoneCapture } from '~/utils/morseAudio';
+import { createAudioDecoder, type AudioDecoder, type DecodedAudio } from '~/utils/morseDecoder';
+import { decodeWav, type WavAudio } from '~/utils/morseWav';
+import CodeTableBadge from '~/components/CodeTableBadge';
+import SignalLamp from '~/components/SignalLamp';
+import { useSettings } from '~/hooks/useSettings';
+import { ArrowLeft, Mic, Square, Upload } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Decode Audio" },
+    { name: "description", content: "Decode Morse from a WAV recording or your microphone." },
+  ];
+};
+
+const FILE_CHUNK_SECONDS = 1; // Fed per animation frame, so long files show text as they decode
+
+type Source = 'file' | 'microphone';
+
+export default function Decode() {
+  const settings = useSettings();
+  const codeTable = getCodeTable(settings.codeTable);
+  const [frequencyInput, setFrequencyInput] = useState(''); // Empty = detect the tone
+  const [source, setSource] = useState<Source | null>(null); // What is decoding right now
+  const [result, setResult] = useState<DecodedAudio | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const decoderRef = useRef<AudioDecoder | null>(null);
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const newDecoder = (sampleRate: number) => {
+    const frequency = Number(frequencyInput);
+    const decoder = createAudioDecoder({
+      sampleRate,
+      table: codeTable,
+      frequency: frequencyInput.trim() !== '' && Number.isFinite(frequency) && frequency > 0 ? frequency : null,
+    });
+    decoderRef.current = decoder;
+    setResult(decoder.getResult());
+    return decoder;
+  };
+
+  const stopAll = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    setSource(null);
+  };
+
+  // Release the microphone when leaving the page
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    captureRef.current?.stop();
+  }, []);
+
+  const handleFile = async (file: File) => {
+    stopAll();
+    setError(null);
+    setFileName(file.name);
+    let audio: WavAudio;
+    try {
+      audio = decodeWav(new Uint8Array(await file.arrayBuffer()));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Could not read the file.');
+      return;
+    }
+
+    const decoder = newDecoder(audio.sampleRate);
+    const chunk = audio.sampleRate * FILE_CHUNK_SECONDS;
+    let position = 0;
+    setSource('file');
+    const step = () => {
+      decoder.push(audio.samples.subarray(position, position + chunk));
+      position += chunk;
+      if (position >= audio.samples.length) {
+        decoder.flush();
+        frameRef.current = null;
+        setSource(null);
+      } else {
+        frameRef.current = requestAnimationFrame(step);
+      }
+      setResult(decoder.getResult());
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  const handleMicrophone = async () => {
+    if (source === 'microphone') {
+      decoderRef.current?.flush();
+      if (decoderRef.current) setResult(decoderRef.current.getResult());
+      stopAll();
+      return;
+    }
+    stopAll();
+    setError(null);
+    setFileName(null);
+    try {
+      const capture = await captureMicrophone(samples => {
+        const decoder = decoderRef.current;
+        if (!decoder) return;
+        decoder.push(samples);
+        setResult(decoder.getResult());
+      });
+      captureRef.current = capture;
+      newDecoder(capture.sampleRate);
+      setSource('microphone');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the microphone.');
+    }
+  };
+
+  const listening = source === 'microphone';
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-2xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Decode Audio</h1>
+      <CodeTableBadge table={codeTable} />
+      <p className="text-sm text-gray-500 dark:text-gray-400 -mt-3 text-center">
+        Check your on-air sending: upload a WAV recording or let the microphone listen.
+      </p>
+
+      {/* Sources */}
+      <div className="flex flex-wrap justify-center items-end gap-4">
+        <label className={`flex items-center gap-2 px-4 py-2 rounded-md text-white transition-colors ${listening ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 cursor-pointer'}`}>
+          <Upload size={18} /> Open WAV file
+          <input
+            type="file"
+            accept=".wav,audio/wav,audio/x-wav"
+            className="sr-only"
+            disabled={listening}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = ''; // Allow picking the same file again
+              if (file) void handleFile(file);
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => void handleMicrophone()}
+          className={`flex items-center gap-2 px-4 py-2 rounded-md text-white transition-colors ${listening ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}
+        >
+          {listening ? <><Square size={18} /> Stop</> : <><Mic size={18} /> Listen</>}
+        </button>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Tone (Hz)
+          <input
+            type="number"
+            min={200}
+            max={2000}
+            placeholder="Auto"
+            value={frequencyInput}
+            onChange={(e) => setFrequencyInput(e.target.value)}
+            disabled={source !== null}
+            className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* Decoded output */}
+      {result && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full flex flex-col gap-4">
+          <div className="flex items-center justify-between gap-4 text-sm text-gray-600 dark:text-gray-300">
+            <span>
+              {fileName ?? (listening ? 'Listening...' : 'Microphone')}
+              {source === 'file' && ' (decoding...)'}
+            </span>
+            {listening && <SignalLamp on={result.keyDown} />}
+          </div>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+            <span>Tone: {result.frequency !== null ? `${Math.round(result.frequency)} Hz` : 'searching...'}</span>
+            <span>Speed: {result.wpm !== null ? `~${Math.round(result.wpm)} WPM` : '-'}</span>
+          </div>
+          <p className="font-mono text-lg text-gray-700 dark:text-gray-300 break-words min-h-[1.75rem]">{result.morse}</p>
+          <p className="text-3xl font-bold tracking-widest text-gray-900 dark:text-gray-100 break-words min-h-[2.25rem]">{result.text}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { getCodeMap, getCodeTable, getSymbols } from '~/utils/morseAlphabet';
+import { createKochLesson, getUnlockedCharacters, resolveLessonOrder } from '~/utils/kochLesson';
+import { settingsToLessonOrder } from '~/utils/settings';
+import { generateCharacter } from '~/utils/receivePractice';
+import {
+  createLadder,
+  createTimedDrill,
+  DEFAULT_LADDER_OPTIONS,
+  DRILL_DURATIONS,
+  drillRate,
+  getTimedDrillResult,
+  getTimeLeftMs,
+  isDrillOver,
+  recordDrillAnswer,
+  startTimedDrill,
+  stepLadder,
+  type LadderChange,
+  type SpeedLadder,
+  type TimedDrill,
+  type TimedDrillResult,
+} from '~/utils/speedDrill';
+import { applyAttempt, applyBestSpeed, createSessionId, type DrillMode } from '~/utils/progressStore';
+import type { KeyedElement } from '~/utils/keyer';
+import { getPressDurations } from '~/utils/fistAnalysis';
+import CodeTableBadge from '~/components/CodeTableBadge';
+import MorseInput, { type MorseInputHandle } from '~/components/MorseInput';
+import SignalLamp from '~/components/SignalLamp';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { useMorsePlayer } from '~/hooks/useMorsePlayer';
+import { useAudioOptions, useSettings } from '~/hooks/useSettings';
+import { ArrowDown, ArrowLeft, ArrowUp, Play, RefreshCw, Square, Timer } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Speed Drills" },
+    { name: "description", content: "Timed sending and copying drills, and a speed ladder that follows your accuracy." },
+  ];
+};
+
+const DRILL_MODES: { mode: DrillMode; label: string; description: string }[] = [
+  { mode: 'timed-send', label: 'Timed send', description: 'Key as many of the shown characters as you can before time runs out.' },
+  { mode: 'timed-receive', label: 'Timed copy', description: 'Type each character as soon as you hear it.' },
+  {
+    mode: 'ladder',
+    label: 'Speed ladder',
+    description: `${DEFAULT_LADDER_OPTIONS.promoteAfter} right in a row speeds up by ${DEFAULT_LADDER_OPTIONS.step} WPM, ${DEFAULT_LADDER_OPTIONS.demoteAfter} misses in a row slow down.`,
+  },
+];
+
+const TICK_MS = 200; // Countdown refresh
+
+export default function Drills() {
+  const settings = useSettings();
+  const audioOptions = useAudioOptions();
+  const codeTable = getCodeTable(settings.codeTable);
+  const codeMap = getCodeMap(codeTable);
+  const { progress, update: updateProgress } = useLearnerProgress();
+  const { playerRef, lampOn, showLamp } = useMorsePlayer();
+
+  const [mode, setMode] = useState<DrillMode>('timed-send');
+  const [durationSeconds, setDurationSeconds] = useState(60);
+  const [knownOnly, setKnownOnly] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [drill, setDrill] = useState<TimedDrill>(() => createTimedDrill(60));
+  const [ladder, setLadder] = useState<SpeedLadder>(() => createLadder());
+  const [ladderChange, setLadderChange] = useState<LadderChange>(null);
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [lastAnswer, setLastAnswer] = useState<{ expected: string; correct: boolean } | null>(null);
+  const [result, setResult] = useState<TimedDrillResult | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const sessionId = useRef(createSessionId());
+  const promptShownAt = useRef(0);
+  const morseInputRef = useRef<MorseInputHandle>(null);
+  const answerRef = useRef<HTMLInputElement>(null);
+
+  // Characters unlocked in Learn Letters, or the whole table before any lesson
+  const tableCharacters = [...getSymbols(codeTable, 'letter'), ...getSymbols(codeTable, 'digit')].map(s => s.symbol);
+  const unlocked = progress
+    ? getUnlockedCharacters(createKochLesson(
+        { order: resolveLessonOrder(codeTable, settingsToLessonOrder(settings)) },
+        progress.koch[codeTable.id]?.unlockedCount,
+      ))
+    : [];
+  const characterPool = knownOnly && unlocked.length >= 2 ? unlocked : tableCharacters;
+  const isTimed = mode !== 'ladder';
+  const isSending = mode === 'timed-send';
+
+  const play = (symbol: string, wpm: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.setOptions(mode === 'ladder' ? { ...audioOptions, wpm, farnsworthWpm: wpm } : audioOptions);
+    void player.playMorse(codeMap[symbol]);
+  };
+
+  const showPrompt = (previous: string | null, wpm: number) => {
+    const pool = characterPool.length > 1 && previous ? characterPool.filter(c => c !== previous) : characterPool;
+    const next = generateCharacter(pool);
+    setPrompt(next);
+    promptShownAt.current = Date.now();
+    if (isSending) morseInputRef.current?.clearInput();
+    else play(next, wpm);
+  };
+
+  const handleStart = () => {
+    const startedAt = Date.now();
+    const freshLadder = createLadder({ startWpm: settings.characterWpm });
+    setDrill(startTimedDrill(createTimedDrill(durationSeconds), startedAt));
+    setLadder(freshLadder);
+    setLadderChange(null);
+    setResult(null);
+    setLastAnswer(null);
+    setNow(startedAt);
+    setRunning(true);
+    sessionId.current = createSessionId(startedAt);
+    showPrompt(null, freshLadder.wpm);
+    if (!isSending) answerRef.current?.focus();
+  };
+
+  const finish = (finalDrill: TimedDrill) => {
+    playerRef.current?.stop();
+    setRunning(false);
+    setPrompt(null);
+    if (!isTimed) return;
+    const drillResult = getTimedDrillResult(finalDrill, codeTable);
+    setResult(drillResult);
+    if (drillResult.correct > 0) {
+      updateProgress(current => applyBestSpeed(current, mode, { wpm: drillResult.wpm, cpm: drillResult.cpm, time: Date.now() }));
+    }
+  };
+
+  // Countdown for timed drills
+  useEffect(() => {
+    if (!running || !isTimed) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [running, isTimed]);
+
+  useEffect(() => {
+    if (running && isTimed && isDrillOver(drill, now)) finish(drill);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [now]);
+
+  // Stop everything when switching drills
+  const handleModeChange = (next: DrillMode) => {
+    playerRef.current?.stop();
+    setMode(next);
+    setRunning(false);
+    setPrompt(null);
+    setResult(null);
+    setLastAnswer(null);
+  };
+
+  const handleAnswer = (given: string, timeline: KeyedElement[] = []) => {
+    if (!running || !prompt) return;
+    const answeredAt = Date.now();
+    const expected = isSending ? codeMap[prompt] : prompt;
+    const correct = isSending ? given === expected : given.toUpperCase() === prompt;
+    setLastAnswer({ expected: prompt, correct });
+    updateProgress(current => applyAttempt(current, {
+      sessionId: sessionId.current,
+      mode: 'drill',
+      symbols: [prompt],
+      correct,
+      time: answeredAt,
+      expected,
+      given: isSending ? given : given.toUpperCase(),
+      responseMs: answeredAt - promptShownAt.current,
+      pressDurations: isSending ? getPressDurations(timeline) : null,
+      copyWpm: isSending ? null : isTimed ? Math.min(settings.characterWpm, settings.effectiveWpm) : ladder.wpm,
+    }));
+
+    if (isTimed) {
+      const nextDrill = recordDrillAnswer(drill, prompt, correct, answeredAt);
+      setDrill(nextDrill);
+      if (isDrillOver(nextDrill, answeredAt)) {
+        finish(nextDrill);
+        return;
+      }
+      showPrompt(prompt, ladder.wpm);
+      return;
+    }
+
+    const { ladder: nextLadder, change } = stepLadder(ladder, correct);
+    setLadder(nextLadder);
+    setLadderChange(change);
+    if (change === 'up' && nextLadder.bestWpm !== null) {
+      const bestWpm = nextLadder.bestWpm;
+      updateProgress(current => applyBestSpeed(current, 'ladder', { wpm: bestWpm, cpm: null, time: answeredAt }));
+    }
+    showPrompt(prompt, nextLadder.wpm);
+  };
+
+  const timeLeftMs = getTimeLeftMs(drill, now);
+  const liveRate = drill.startedAt !== null ? drillRate(drill.correct, Math.max(1000, now - drill.startedAt), codeTable) : null;
+  const best = progress?.bestSpeeds[mode] ?? null;
+  const modeInfo = DRILL_MODES.find(option => option.mode === mode);
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-2xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Speed Drills</h1>
+      <CodeTableBadge table={codeTable} />
+
+      {/* Drill picker */}
+      <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Drill">
+        {DRILL_MODES.map(option => (
+          <button
+            key={option.mode}
+            type="button"
+            onClick={() => handleModeChange(option.mode)}
+            className={`px-3 py-1.5 text-sm rounded-md border ${option.mode === mode ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 -mt-3 text-center">
+        {modeInfo?.description}
+        {best && <> Best: <span className="font-semibold">{best.wpm.toFixed(1)} WPM</span>{best.cpm !== null && ` (${Math.round(best.cpm)} CPM)`}.</>}
+      </p>
+
+      {!running && (
+        <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={knownOnly} onChange={(e) => setKnownOnly(e.target.checked)} disabled={unlocked.length < 2} />
+            Only characters I know
+          </label>
+          {isTimed && (
+            <label className="flex items-center gap-2">
+              Length
+              <select
+                value={durationSeconds}
+                onChange={(e) => setDurationSeconds(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+              >
+                {DRILL_DURATIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>{seconds} seconds</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={handleStart}
+            className="flex items-center gap-2 px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+          >
+            <Play size={18} /> Start
+          </button>
+        </div>
+      )}
+
+      {/* Running drill */}
+      {running && prompt && (
+        <div className="text-center bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full flex flex-col items-center gap-4">
+          <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+            {isTimed ? (
+              <>
+                <span className="flex items-center gap-1 font-semibold text-lg"><Timer size={18} /> {Math.ceil(timeLeftMs / 1000)} s</span>
+                {liveRate && <span className="self-center">{Math.round(liveRate.cpm)} CPM · {liveRate.wpm.toFixed(1)} WPM</span>}
+              </>
+            ) : (
+              <>
+                <span className="flex items-center gap-1 font-semibold text-lg">
+                  {ladderChange === 'up' && <ArrowUp size={18} className="text-green-600" />}
+                  {ladderChange === 'down' && <ArrowDown size={18} className="text-red-600" />}
+                  {ladder.wpm} WPM
+                </span>
+                <span className="self-center">
+                  Streak {ladder.streak}/{DEFAULT_LADDER_OPTIONS.promoteAfter}
+                  {ladder.bestWpm !== null && ` · cleared ${ladder.bestWpm} WPM`}
+                </span>
+              </>
+            )}
+          </div>
+
+          {isSending ? (
+            <p className="text-6xl font-bold text-gray-900 dark:text-gray-100">{prompt}</p>
+          ) : (
+            <div className="flex items-center gap-3">
+              {showLamp && <SignalLamp on={lampOn} size="large" />}
+              <button
+                type="button"
+                onClick={() => play(prompt, ladder.wpm)}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+              >
+                <RefreshCw size={18} /> Replay
+              </button>
+            </div>
+          )}
+
+          {lastAnswer && (
+            <p className={`text-sm font-medium ${lastAnswer.correct ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {lastAnswer.correct ? `${lastAnswer.expected} correct` : `Missed: it was ${lastAnswer.expected} (${codeMap[lastAnswer.expected]})`}
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => finish(drill)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+          >
+            <Square size={16} /> Stop
+          </button>
+        </div>
+      )}
+
+      {running && isSending && (
+        <MorseInput ref={morseInputRef} onInputComplete={handleAnswer} validationState="idle" />
+      )}
+      {running && !isSending && (
+        <input
+          ref={answerRef}
+          type="text"
+          value=""
+          onChange={(e) => {
+            const typed = e.target.value.trim();
+            if (typed) handleAnswer(typed.slice(-1));
+          }}
+          autoComplete="off"
+          autoCapitalize="characters"
+          spellCheck={false}
+          placeholder="Type what you hear"
+          aria-label="Your answer"
+          className="w-40 p-3 text-center text-2xl border-2 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+
+      {/* Results */}
+      {!running && result && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full text-center flex flex-col gap-2">
+          <p className="text-lg text-gray-600 dark:text-gray-300">Time! You got {result.correct} of {result.attempts} right ({Math.round(result.accuracy * 100)}%).</p>
+          <p className="text-4xl font-bold text-gray-900 dark:text-gray-100">{Math.round(result.cpm)} CPM</p>
+          <p className="text-lg text-gray-700 dark:text-gray-300">{result.wpm.toFixed(1)} WPM (PARIS)</p>
+        </div>
+      )}
+      {!running && !isTimed && ladder.answered > 0 && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full text-center flex flex-col gap-2">
+          <p className="text-lg text-gray-600 dark:text-gray-300">{ladder.correct} of {ladder.answered} right, finishing at {ladder.wpm} WPM.</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {ladder.bestWpm !== null ? `Fastest rung cleared: ${ladder.bestWpm} WPM` : 'No rung cleared yet, keep climbing!'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
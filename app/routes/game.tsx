@@ -0,0 +1,287 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { getCodeTable, getSymbolMap } from '~/utils/morseAlphabet';
+import { createKochLesson, getUnlockedCharacters, resolveLessonOrder } from '~/utils/kochLesson';
+import { settingsToLessonOrder } from '~/utils/settings';
+import { COMMON_WORDS } from '~/utils/wordList';
+import {
+  advanceGame,
+  createGame,
+  GAME_DIFFICULTIES,
+  getMultiplier,
+  keyGame,
+  type GameDifficulty,
+  type GameEvent,
+  type GameState,
+} from '~/utils/fallingLetters';
+import { applyHighScore, type HighScore } from '~/utils/progressStore';
+import CodeTableBadge from '~/components/CodeTableBadge';
+import MorseInput, { type MorseInputHandle } from '~/components/MorseInput';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { useSettings } from '~/hooks/useSettings';
+import { ArrowLeft, Heart, Pause, Play, RotateCcw, Trophy } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Arcade" },
+    { name: "description", content: "Key the falling letters and words before they reach the bottom." },
+  ];
+};
+
+const MAX_FRAME_MS = 250; // A background tab or a slow frame never jumps the game ahead by more
+
+// Short text for the feedback line under the playfield
+function describeEvents(events: GameEvent[], codeToSymbol: (code: string) => string): string | null {
+  const event = events[events.length - 1];
+  if (!event) return null;
+  switch (event.type) {
+    case 'cleared': return `${event.text} +${event.points}`;
+    case 'dropped': return `${event.text} got through!`;
+    case 'wrong': return `${codeToSymbol(event.code)} (${event.code}) does not fit`;
+    case 'level': return `Level ${event.level}!`;
+  }
+}
+
+export default function Game() {
+  const settings = useSettings();
+  const codeTable = getCodeTable(settings.codeTable);
+  const { progress, update: updateProgress } = useLearnerProgress();
+  const [difficulty, setDifficulty] = useState<GameDifficulty>('normal');
+  const [knownOnly, setKnownOnly] = useState(true);
+  const [game, setGame] = useState<GameState | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [lastScore, setLastScore] = useState<HighScore | null>(null);
+  const gameRef = useRef<GameState | null>(null);
+  const morseInputRef = useRef<MorseInputHandle>(null);
+
+  // Levels bring in the characters in lesson order; "known only" stops at the ones unlocked in Learn Letters
+  const lessonOrder = resolveLessonOrder(codeTable, settingsToLessonOrder(settings));
+  const unlocked = progress
+    ? getUnlockedCharacters(createKochLesson({ order: lessonOrder }, progress.koch[codeTable.id]?.unlockedCount))
+    : [];
+  const characters = knownOnly && unlocked.length >= 2 ? unlocked : lessonOrder;
+  const symbolMap = getSymbolMap(codeTable);
+
+  const commit = (next: GameState) => {
+    const previous = gameRef.current;
+    gameRef.current = next;
+    setGame(next);
+    const text = describeEvents(next.events, code => symbolMap[code] ?? '?');
+    if (text) setMessage(text);
+    if (next.over && previous && !previous.over) {
+      const entry: HighScore = {
+        score: next.score,
+        level: next.level,
+        cleared: next.cleared,
+        bestCombo: next.bestCombo,
+        difficulty: next.options.difficulty,
+        time: Date.now(),
+      };
+      setLastScore(entry);
+      updateProgress(current => applyHighScore(current, entry));
+    }
+  };
+
+  const handleStart = () => {
+    setPaused(false);
+    setMessage(null);
+    setLastScore(null);
+    commit(createGame({ characters, words: COMMON_WORDS, difficulty, seed: Date.now(), table: codeTable }));
+    morseInputRef.current?.clearInput();
+  };
+
+  const handleQuit = () => {
+    gameRef.current = null;
+    setGame(null);
+    setPaused(false);
+  };
+
+  const playing = game !== null && !game.over && !paused;
+
+  // Game loop: real time is fed to the fixed-step engine every animation frame
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    let remainder = 0;
+    const step = (now: number) => {
+      const current = gameRef.current;
+      if (!current) return;
+      const advanced = advanceGame(current, Math.min(MAX_FRAME_MS, now - last) + remainder);
+      last = now;
+      remainder = advanced.remainderMs;
+      if (advanced.state !== current) commit(advanced.state);
+      if (!advanced.state.over) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playing]);
+
+  const handleKeyed = (morse: string) => {
+    morseInputRef.current?.clearInput();
+    const current = gameRef.current;
+    if (!current || current.over) return;
+    commit(keyGame(current, morse));
+  };
+
+  const highScores = progress?.highScores ?? [];
+  const rank = lastScore ? highScores.findIndex(entry => entry.time === lastScore.time) : -1;
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-2xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Arcade</h1>
+      <CodeTableBadge table={codeTable} />
+
+      {!game && (
+        <div className="flex flex-col items-center gap-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+            Key each falling letter before it lands. Words join from level 3: key them letter by letter.
+          </p>
+          <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={knownOnly} onChange={(e) => setKnownOnly(e.target.checked)} disabled={unlocked.length < 2} />
+              Only characters I know
+            </label>
+            <label className="flex items-center gap-2">
+              Difficulty
+              <select
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as GameDifficulty)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+              >
+                {(Object.keys(GAME_DIFFICULTIES) as GameDifficulty[]).map(option => (
+                  <option key={option} value={option}>{GAME_DIFFICULTIES[option].label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={handleStart}
+              className="flex items-center gap-2 px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+            >
+              <Play size={18} /> Play
+            </button>
+          </div>
+        </div>
+      )}
+
+      {game && (
+        <>
+          {/* Score bar */}
+          <div className="flex flex-wrap justify-between items-center gap-x-6 gap-y-1 w-full text-sm text-gray-600 dark:text-gray-300">
+            <span className="text-lg font-semibold text-gray-900 dark:text-gray-100">{game.score} pts</span>
+            <span>Level {game.level}</span>
+            <span>Combo {game.combo} (x{getMultiplier(game.combo)})</span>
+            <span className="flex items-center gap-0.5" aria-label={`${game.lives} lives left`}>
+              {Array.from({ length: GAME_DIFFICULTIES[game.options.difficulty].lives }, (_, index) => (
+                <Heart key={index} size={18} className={index < game.lives ? 'text-red-500 fill-red-500' : 'text-gray-300 dark:text-gray-600'} />
+              ))}
+            </span>
+          </div>
+
+          {/* Playfield */}
+          <div className="relative w-full h-80 overflow-hidden rounded-lg bg-gray-900 border-b-4 border-red-500">
+            {game.pieces.map(piece => (
+              <div
+                key={piece.id}
+                className={`absolute -translate-x-1/2 px-2 py-1 rounded font-mono text-2xl font-bold tracking-wider ${piece.id === game.targetId ? 'bg-yellow-400 text-gray-900' : 'bg-gray-700 text-gray-100'}`}
+                style={{ left: `${piece.x * 100}%`, top: `calc(${piece.y} * (100% - 2.75rem))` }}
+              >
+                <span className="opacity-40">{piece.text.slice(0, piece.typed)}</span>
+                {piece.text.slice(piece.typed)}
+              </div>
+            ))}
+            {(game.over || paused) && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 text-white">
+                <p className="text-3xl font-bold">{game.over ? 'Game over' : 'Paused'}</p>
+                {game.over && (
+                  <p>
+                    {game.score} points, {game.cleared} cleared, best combo {game.bestCombo}
+                    {rank >= 0 && ` (#${rank + 1} on your table)`}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-300 min-h-[1.25rem]">{message}</p>
+
+          <div className="flex flex-wrap justify-center gap-3">
+            {game.over ? (
+              <button
+                type="button"
+                onClick={handleStart}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+              >
+                <RotateCcw size={18} /> Play again
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setPaused(!paused)}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+              >
+                {paused ? <><Play size={18} /> Resume</> : <><Pause size={18} /> Pause</>}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleQuit}
+              className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+            >
+              {game.over ? 'Change settings' : 'Quit'}
+            </button>
+          </div>
+
+          {!game.over && !paused && <MorseInput ref={morseInputRef} onInputComplete={handleKeyed} validationState="idle" />}
+        </>
+      )}
+
+      {/* High scores */}
+      {(!game || game.over) && highScores.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">
+            <Trophy size={20} className="text-yellow-500" /> High scores
+          </h2>
+          <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1">#</th>
+                <th className="py-1">Score</th>
+                <th className="py-1">Level</th>
+                <th className="py-1">Combo</th>
+                <th className="py-1">Difficulty</th>
+                <th className="py-1">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {highScores.map((entry, index) => (
+                <tr key={`${entry.time}-${index}`} className={index === rank ? 'font-semibold text-gray-900 dark:text-gray-100' : ''}>
+                  <td className="py-1">{index + 1}</td>
+                  <td className="py-1">{entry.score}</td>
+                  <td className="py-1">{entry.level}</td>
+                  <td className="py-1">{entry.bestCombo}</td>
+                  <td className="py-1">{GAME_DIFFICULTIES[entry.difficulty]?.label ?? entry.difficulty}</td>
+                  <td className="py-1">{new Date(entry.time).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useRef, useState } from 'react';
+import type { MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { getCodeTable } from '~/utils/morseAlphabet';
+import { encodeText } from '~/utils/morseConverter';
+import { diffMorse } from '~/utils/morseDiff';
+import { checkPhrase, getPhraseLevel, PHRASE_LEVELS, phraseToMorse, pickPhrase, type Phrase, type PhraseCheck } from '~/utils/phrases';
+import CodeTableBadge from '~/components/CodeTableBadge';
+import PlayMorseButton from '~/components/PlayMorseButton';
+import SignalTimeline from '~/components/SignalTimeline';
+import MorseInput, { type MorseInputHandle } from '~/components/MorseInput';
+import FistQualityPanel from '~/components/FistQualityPanel';
+import { applyAttempt, createSessionId } from '~/utils/progressStore';
+import { outcomesFromDiff } from '~/utils/stats';
+import { analyzeFist, FIST_WINDOW, getPressDurations, type KeyedAttempt } from '~/utils/fistAnalysis';
+import type { KeyedElement } from '~/utils/keyer';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { useSettings } from '~/hooks/useSettings';
+import { ArrowLeft, ArrowUp, HelpCircle, Keyboard, Radio, RefreshCw, Send } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Learn Phrases" },
+    { name: "description", content: "Practice sending whole phrases and ham-radio exchanges in Morse code." },
+  ];
+};
+
+type ValidationState = 'idle' | 'correct' | 'incorrect' | 'hinted';
+type AnswerMode = 'type' | 'key';
+
+// Clean answers (no hint) in a level before moving up is suggested
+const LEVEL_UP_STREAK = 3;
+
+export default function LearnPhrases() {
+  const settings = useSettings();
+  // The library is written in Latin script, so a non-Latin table from settings falls back to the default one
+  const settingsTable = getCodeTable(settings.codeTable);
+  const codeTable = settingsTable.script === 'latin' ? settingsTable : getCodeTable();
+
+  const [level, setLevel] = useState(PHRASE_LEVELS[0].level);
+  // A random first pick would differ between the server and client render, so start with the level's first phrase
+  const [phrase, setPhrase] = useState<Phrase | undefined>(() => pickPhrase(PHRASE_LEVELS[0].level, codeTable, undefined, () => 0));
+  const [userInput, setUserInput] = useState('');
+  const [result, setResult] = useState<PhraseCheck | null>(null);
+  const [showHint, setShowHint] = useState(false);
+  const [validationState, setValidationState] = useState<ValidationState>('idle');
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('type');
+  const [streak, setStreak] = useState(0); // Clean answers in the current level
+  const morseInputRef = useRef<MorseInputHandle>(null);
+  const { update: updateProgress } = useLearnerProgress();
+  const sessionId = useRef(createSessionId());
+  const [keyedAttempts, setKeyedAttempts] = useState<KeyedAttempt[]>([]); // Recent timelines for the fist report
+  const phraseShownAt = useRef(Date.now()); // For response time in stats
+
+  const correctMorse = phrase ? phraseToMorse(phrase.text, codeTable) : '';
+  const levelInfo = getPhraseLevel(level);
+  const nextLevel = getPhraseLevel(level + 1);
+  const fistReport = analyzeFist(keyedAttempts);
+
+  const showPhrase = (next: Phrase | undefined) => {
+    setPhrase(next);
+    setUserInput('');
+    setResult(null);
+    setShowHint(false);
+    setValidationState('idle');
+    morseInputRef.current?.clearInput();
+    phraseShownAt.current = Date.now();
+  };
+
+  const handleLevelChange = (nextLevelNumber: number) => {
+    setLevel(nextLevelNumber);
+    setStreak(0);
+    showPhrase(pickPhrase(nextLevelNumber, codeTable));
+  };
+
+  const handleNextPhrase = () => showPhrase(pickPhrase(level, codeTable, phrase?.id));
+
+  const handleCheck = (input: string = userInput, pressDurations: number[] | null = null) => {
+    if (!phrase || validationState === 'correct') return false;
+    const check = checkPhrase(input, phrase.text, codeTable);
+    const now = Date.now();
+    setResult(check);
+    setValidationState(check.correct ? 'correct' : 'incorrect');
+    setStreak(current => (check.correct ? (showHint ? current : current + 1) : 0));
+    // Every letter of the phrase counts towards its character stats
+    updateProgress(current => applyAttempt(current, {
+      sessionId: sessionId.current,
+      mode: 'phrases',
+      symbols: check.words.flatMap(word => word.letters.map(letter => letter.symbol).filter((symbol): symbol is string => symbol !== null)),
+      correct: check.correct,
+      time: now,
+      prompt: phrase.text,
+      expected: correctMorse,
+      given: input.trim(),
+      responseMs: now - phraseShownAt.current,
+      pressDurations,
+      characters: outcomesFromDiff(
+        diffMorse(correctMorse, input, encodeText(phrase.text, { table: codeTable }).tokens.map(token => token.symbol)),
+        codeTable,
+      ),
+    }));
+    return check.correct;
+  };
+
+  // Keyed answers arrive as a full Morse string from MorseInput's stream mode
+  const handleKeyedInput = (morse: string, timeline: KeyedElement[]) => {
+    setUserInput(morse);
+    setKeyedAttempts(previous => [...previous, { timeline, morse }].slice(-FIST_WINDOW));
+    if (!handleCheck(morse, getPressDurations(timeline))) {
+      setTimeout(() => morseInputRef.current?.clearInput(), 1500);
+    }
+  };
+
+  const handleShowHint = () => {
+    if (validationState === 'correct') return;
+    setShowHint(true);
+    setValidationState('hinted');
+  };
+
+  const getBorderColor = () => {
+    switch (validationState) {
+      case 'correct': return 'border-green-500 dark:border-green-400';
+      case 'incorrect': return 'border-red-500 dark:border-red-400';
+      case 'hinted': return 'border-yellow-500 dark:border-yellow-400';
+      default: return 'border-gray-300 dark:border-gray-600';
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-2xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Learn Phrases</h1>
+      <CodeTableBadge table={codeTable} />
+
+      {/* Level picker */}
+      <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Difficulty level">
+        {PHRASE_LEVELS.map(l => (
+          <button
+            key={l.level}
+            type="button"
+            onClick={() => handleLevelChange(l.level)}
+            className={`px-3 py-1.5 text-sm rounded-md border ${l.level === level ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+          >
+            {l.level}. {l.name}
+          </button>
+        ))}
+      </div>
+      {levelInfo && <p className="text-sm text-gray-500 dark:text-gray-400 -mt-3">{levelInfo.description}</p>}
+
+      {/* Phrase Display */}
+      <div className="text-center bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full">
+        <p className="text-lg text-gray-600 dark:text-gray-300 mb-2">Translate this phrase to Morse:</p>
+        <p className="text-3xl md:text-5xl font-bold text-gray-900 dark:text-gray-100 tracking-widest break-words">
+          {phrase?.text ?? 'No phrases for this code table'}
+        </p>
+        {phrase?.meaning && <p className="text-sm text-gray-500 dark:text-gray-400 mt-2 italic">{phrase.meaning}</p>}
+        <div className="flex justify-center mt-4">
+          <PlayMorseButton morse={correctMorse} label="Play the phrase" />
+        </div>
+      </div>
+
+      {/* Answer mode toggle */}
+      <div className="flex rounded-md shadow-sm" role="group" aria-label="Answer mode">
+        <button
+          type="button"
+          onClick={() => setAnswerMode('type')}
+          className={`flex items-center gap-2 px-4 py-2 text-sm rounded-l-md border ${answerMode === 'type' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'}`}
+        >
+          <Keyboard size={16} /> Type
+        </button>
+        <button
+          type="button"
+          onClick={() => setAnswerMode('key')}
+          className={`flex items-center gap-2 px-4 py-2 text-sm rounded-r-md border ${answerMode === 'key' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'}`}
+        >
+          <Radio size={16} /> Key
+        </button>
+      </div>
+
+      {answerMode === 'key' ? (
+        <MorseInput
+          ref={morseInputRef}
+          keyingMode="stream"
+          onInputComplete={handleKeyedInput}
+          validationState={validationState === 'hinted' ? 'idle' : validationState}
+        />
+      ) : (
+        <div className={`w-full p-4 border-2 ${getBorderColor()} rounded bg-white dark:bg-gray-700 transition-colors duration-300`}>
+          <label htmlFor="phraseInput" className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">
+            Your Morse Code Input:
+          </label>
+          <input
+            id="phraseInput"
+            type="text"
+            value={userInput}
+            onChange={(e) => setUserInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+            placeholder="Letters separated by spaces, words by / ..."
+            className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 font-mono text-xl text-gray-900 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            disabled={!phrase || validationState === 'correct'}
+            aria-label="Morse code input field"
+          />
+        </div>
+      )}
+
+      {/* Hint Display Area */}
+      {showHint && (
+        <div className="w-full p-3 bg-yellow-100 dark:bg-yellow-900 border border-yellow-300 dark:border-yellow-700 rounded text-center">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200 font-medium">Hint (Correct Morse):</p>
+          <p className="font-mono text-lg text-yellow-900 dark:text-yellow-100 mt-1 break-words">{correctMorse}</p>
+          <div className="mt-2 text-left"><SignalTimeline morse={correctMorse} /></div>
+        </div>
+      )}
+
+      {/* Per-word and per-letter feedback */}
+      {result && (
+        <div className="w-full flex flex-col gap-3">
+          <p className={`text-lg font-semibold text-center ${result.correct ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {result.correct
+              ? 'Correct!'
+              : `${result.correctWords} of ${result.words.filter(w => w.word !== null).length} words, ${result.correctLetters} of ${result.totalLetters} letters right.`}
+          </p>
+          <div className="flex flex-wrap justify-center gap-3">
+            {result.words.map((word, wordIndex) => (
+              <div
+                key={wordIndex}
+                className={`px-3 py-2 rounded-md border ${word.correct ? 'border-green-400 bg-green-50 dark:bg-green-900/30' : 'border-red-400 bg-red-50 dark:bg-red-900/30'}`}
+              >
+                <p className="text-sm font-semibold text-gray-700 dark:text-gray-200 text-center">{word.word ?? '(extra word)'}</p>
+                <div className="flex gap-2 mt-1">
+                  {word.letters.map((letter, letterIndex) => (
+                    <div key={letterIndex} className="flex flex-col items-center" title={letter.expected ? `Expected ${letter.expected}` : 'Not in the phrase'}>
+                      <span className={`font-bold ${letter.correct ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                        {letter.symbol ?? '+'}
+                      </span>
+                      <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{letter.actual ?? '∅'}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Move up once the current level is comfortable */}
+      {streak >= LEVEL_UP_STREAK && nextLevel && (
+        <button
+          type="button"
+          onClick={() => handleLevelChange(nextLevel.level)}
+          className="flex items-center gap-2 px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+        >
+          <ArrowUp size={18} /> Move up to level {nextLevel.level}: {nextLevel.name}
+        </button>
+      )}
+
+      {/* Sending timing across recent keyed answers */}
+      {answerMode === 'key' && fistReport && <FistQualityPanel report={fistReport} latest={keyedAttempts[keyedAttempts.length - 1]} />}
+
+      {/* Action Buttons */}
+      <div className="flex flex-wrap justify-center gap-4 w-full">
+        <button
+          onClick={() => handleCheck()}
+          disabled={!phrase || !userInput || validationState === 'correct'}
+          className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
+        >
+          <Send size={18} /> Check
+        </button>
+        <button
+          onClick={handleShowHint}
+          disabled={!phrase || showHint || validationState === 'correct'}
+          className="flex items-center gap-2 px-5 py-2 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
+        >
+          <HelpCircle size={18} /> Hint
+        </button>
+        <button
+          onClick={handleNextPhrase}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+        >
+          <RefreshCw size={18} /> Next Phrase
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center mt-6 px-4">
+        Use a space between letters and &apos;/&apos; between words, e.g. <span className="font-mono">.... .. / - .... . .-. .</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MetaFunction } from "@remix-run/node";
+import { Link, useFetcher } from "@remix-run/react";
+import { getCodeMap, getCodeTable, getSymbols } from '~/utils/morseAlphabet';
+import { encodeText } from '~/utils/morseConverter';
+import { createKochLesson, getUnlockedCharacters, resolveLessonOrder } from '~/utils/kochLesson';
+import { settingsToLessonOrder } from '~/utils/settings';
+import { buildWordQuery } from '~/utils/wordQuery';
+import {
+  generateCallsign,
+  generateCharacter,
+  generateGroup,
+  REPLAY_LIMIT_OPTIONS,
+  scoreCopy,
+  type CopyResult,
+  type ReceiveContentKind,
+} from '~/utils/receivePractice';
+import { canVibrate } from '~/utils/morseHaptics';
+import { applyAttempt, createSessionId } from '~/utils/progressStore';
+import { outcomesFromCopy } from '~/utils/stats';
+import CodeTableBadge from '~/components/CodeTableBadge';
+import SignalLamp from '~/components/SignalLamp';
+import SignalTimeline from '~/components/SignalTimeline';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { useMorsePlayer } from '~/hooks/useMorsePlayer';
+import { useSettings } from '~/hooks/useSettings';
+import type { loader as wordsLoader } from './learn.words';
+import { ArrowLeft, Play, RefreshCw, Send } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Copy Practice" },
+    { name: "description", content: "Listen to Morse code and type what you hear." },
+  ];
+};
+
+const CONTENT_KINDS: { kind: ReceiveContentKind; label: string }[] = [
+  { kind: 'characters', label: 'Characters' },
+  { kind: 'groups', label: '5-char groups' },
+  { kind: 'words', label: 'Words' },
+  { kind: 'callsigns', label: 'Callsigns' },
+];
+
+export default function LearnReceive() {
+  const settings = useSettings();
+  // Words and callsigns are Latin, so a non-Latin table from settings falls back to the default one
+  const settingsTable = getCodeTable(settings.codeTable);
+  const codeTable = settingsTable.script === 'latin' ? settingsTable : getCodeTable();
+  const { progress, update: updateProgress } = useLearnerProgress();
+  const wordFetcher = useFetcher<typeof wordsLoader>();
+
+  const [kind, setKind] = useState<ReceiveContentKind>('characters');
+  const [replayLimit, setReplayLimit] = useState<number | null>(2);
+  const [knownOnly, setKnownOnly] = useState(true);
+  const [prompt, setPrompt] = useState<string | null>(null); // Hidden until answered
+  const [plays, setPlays] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<CopyResult | null>(null);
+  const [tally, setTally] = useState({ items: 0, correct: 0, characters: 0, charactersCorrect: 0 });
+  const [feelOnly, setFeelOnly] = useState(false); // Prompts by vibration only
+  const [vibrationSupported, setVibrationSupported] = useState(true); // Checked on the client
+  const { playerRef, lampOn, showLamp } = useMorsePlayer(undefined, feelOnly ? 'vibration' : undefined);
+  const sessionId = useRef(createSessionId());
+  const itemStartedAt = useRef(0); // For response time in stats
+  const seenWords = useRef<string[]>([]);
+  const answerRef = useRef<HTMLInputElement>(null);
+
+  // Characters unlocked in Learn Letters, or the whole table before any lesson
+  const tableCharacters = [...getSymbols(codeTable, 'letter'), ...getSymbols(codeTable, 'digit')].map(s => s.symbol);
+  const unlocked = progress
+    ? getUnlockedCharacters(createKochLesson(
+        { order: resolveLessonOrder(codeTable, settingsToLessonOrder({ ...settings, codeTable: codeTable.id })) },
+        progress.koch[codeTable.id]?.unlockedCount,
+      ))
+    : [];
+  const characterPool = knownOnly && unlocked.length >= 2 ? unlocked : tableCharacters;
+
+  useEffect(() => {
+    setVibrationSupported(canVibrate());
+  }, []);
+
+  const playsAllowed = replayLimit === null ? Infinity : replayLimit + 1;
+  const canPlay = prompt !== null && !isPlaying && (plays < playsAllowed || result !== null);
+
+  const play = async (text: string) => {
+    const player = playerRef.current;
+    if (!player) return;
+    setIsPlaying(true);
+    setPlays(count => count + 1);
+    await player.playMorse(encodeText(text, { table: codeTable }).morse);
+    setIsPlaying(false);
+    answerRef.current?.focus();
+  };
+
+  const startItem = (text: string) => {
+    playerRef.current?.stop();
+    setPrompt(text);
+    setAnswer('');
+    setResult(null);
+    setPlays(0);
+    setIsPlaying(false);
+    itemStartedAt.current = Date.now();
+    void play(text);
+  };
+
+  const handleNext = () => {
+    switch (kind) {
+      case 'characters':
+        return startItem(generateCharacter(characterPool));
+      case 'groups':
+        return startItem(generateGroup(characterPool));
+      case 'callsigns':
+        return startItem(generateCallsign(Math.random, { portable: '/' in getCodeMap(codeTable) }));
+      case 'words':
+        wordFetcher.load(`/learn/words?${buildWordQuery({
+          allowedCharacters: knownOnly && unlocked.length >= 2 ? unlocked.filter(c => /^[A-Z]$/.test(c)) : undefined,
+          exclude: seenWords.current,
+        })}`);
+    }
+  };
+
+  // Words arrive from the word providers through the words loader
+  useEffect(() => {
+    if (wordFetcher.state !== 'idle' || !wordFetcher.data) return;
+    const { word } = wordFetcher.data;
+    if (!word) return;
+    seenWords.current.push(word);
+    startItem(word);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wordFetcher.data, wordFetcher.state]);
+
+  const handleCheck = () => {
+    if (!prompt || result) return;
+    const scored = scoreCopy(prompt, answer);
+    const now = Date.now();
+    setResult(scored);
+    setTally(t => ({
+      items: t.items + 1,
+      correct: t.correct + (scored.correct ? 1 : 0),
+      characters: t.characters + scored.score.matches + scored.score.substitutions + scored.score.deletions,
+      charactersCorrect: t.charactersCorrect + scored.score.matches,
+    }));
+    updateProgress(current => applyAttempt(current, {
+      sessionId: sessionId.current,
+      mode: 'receive',
+      symbols: Array.from(scored.expected).filter(char => char !== ' '),
+      correct: scored.correct,
+      time: now,
+      prompt,
+      expected: scored.expected,
+      given: scored.given,
+      responseMs: now - itemStartedAt.current,
+      characters: outcomesFromCopy(scored),
+      copyWpm: Math.min(settings.characterWpm, settings.effectiveWpm),
+    }));
+  };
+
+  const resetItem = () => {
+    playerRef.current?.stop();
+    setPrompt(null);
+    setResult(null);
+    setAnswer('');
+    setPlays(0);
+    setIsPlaying(false);
+  };
+
+  const handleKindChange = (next: ReceiveContentKind) => {
+    resetItem();
+    setKind(next);
+  };
+
+  // The player is rebuilt for the new output, so the current item starts over
+  const handleFeelOnlyChange = (next: boolean) => {
+    resetItem();
+    setFeelOnly(next);
+  };
+
+  const wordError = wordFetcher.data && !wordFetcher.data.word ? wordFetcher.data.error : null;
+  const isFetchingWord = wordFetcher.state !== 'idle';
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-2xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Copy Practice</h1>
+      <CodeTableBadge table={codeTable} />
+      <p className="text-sm text-gray-500 dark:text-gray-400 -mt-3">
+        {settings.characterWpm} WPM characters, {settings.effectiveWpm} WPM effective. Change speeds in <Link to="/settings" className="underline">Settings</Link>.
+      </p>
+
+      {/* Content picker */}
+      <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="What to copy">
+        {CONTENT_KINDS.map(option => (
+          <button
+            key={option.kind}
+            type="button"
+            onClick={() => handleKindChange(option.kind)}
+            className={`px-3 py-1.5 text-sm rounded-md border ${option.kind === kind ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+        {kind !== 'callsigns' && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={knownOnly} onChange={(e) => setKnownOnly(e.target.checked)} disabled={unlocked.length < 2} />
+            Only characters I know
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={feelOnly} onChange={(e) => handleFeelOnlyChange(e.target.checked)} />
+          Vibration only
+        </label>
+        <label className="flex items-center gap-2">
+          Replays
+          <select
+            value={replayLimit === null ? 'unlimited' : String(replayLimit)}
+            onChange={(e) => setReplayLimit(e.target.value === 'unlimited' ? null : Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+          >
+            {REPLAY_LIMIT_OPTIONS.map(limit => (
+              <option key={String(limit)} value={limit === null ? 'unlimited' : String(limit)}>
+                {limit === null ? 'Unlimited' : limit}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Listening panel */}
+      <div className="text-center bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full flex flex-col items-center gap-4">
+        {prompt === null ? (
+          <p className="text-lg text-gray-600 dark:text-gray-300">Press Start, listen, then type what you heard.</p>
+        ) : (
+          <>
+            <p className="text-lg text-gray-600 dark:text-gray-300">
+              {isPlaying ? (feelOnly ? 'Feel...' : showLamp ? 'Watch...' : 'Listen...') : result ? 'It was:' : 'What did you hear?'}
+            </p>
+            {showLamp && <SignalLamp on={lampOn} size="large" />}
+            {result && <p className="text-4xl font-bold tracking-widest text-gray-900 dark:text-gray-100">{result.expected}</p>}
+            {result && <SignalTimeline morse={encodeText(result.expected, { table: codeTable }).morse} />}
+            <button
+              type="button"
+              onClick={() => void play(prompt)}
+              disabled={!canPlay}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Play size={18} /> Replay
+              {result === null && replayLimit !== null && (
+                <span className="text-xs opacity-80">({Math.max(0, playsAllowed - plays)} left)</span>
+              )}
+            </button>
+          </>
+        )}
+        {feelOnly && !vibrationSupported && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">This device or browser cannot vibrate, so prompts will be silent.</p>
+        )}
+        {wordError && <p className="text-sm text-red-600 dark:text-red-400">{wordError}</p>}
+      </div>
+
+      {prompt !== null && (
+        <div className="w-full p-4 border-2 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700">
+          <label htmlFor="copyInput" className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">
+            Your copy:
+          </label>
+          <input
+            id="copyInput"
+            ref={answerRef}
+            type="text"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && (result ? handleNext() : handleCheck())}
+            autoComplete="off"
+            autoCapitalize="characters"
+            spellCheck={false}
+            className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 font-mono text-2xl uppercase tracking-widest text-gray-900 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            disabled={result !== null}
+            aria-label="Text you copied"
+          />
+        </div>
+      )}
+
+      {/* Character-by-character diff */}
+      {result && (
+        <div className="w-full flex flex-col items-center gap-2">
+          <div className="flex flex-wrap justify-center gap-1 font-mono text-2xl" aria-label="Comparison">
+            {result.pairs.map((pair, index) => (
+              <span
+                key={index}
+                title={
+                  pair.op === 'match' ? 'Correct'
+                    : pair.op === 'substitute' ? `Heard ${pair.actual}, sent ${pair.expected}`
+                    : pair.op === 'delete' ? `Missed ${pair.expected}`
+                    : `Extra ${pair.actual}`
+                }
+                className={`px-1 rounded ${
+                  pair.op === 'match' ? 'text-green-700 dark:text-green-300'
+                    : pair.op === 'insert' ? 'text-gray-400 line-through'
+                    : 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                }`}
+              >
+                {pair.op === 'insert' ? pair.actual : pair.expected === ' ' ? '\u00a0' : pair.expected /* Keep word gaps visible */}
+                {pair.op === 'substitute' && <sub className="text-xs ml-0.5">{pair.actual}</sub>}
+              </span>
+            ))}
+          </div>
+          <p className={`text-lg font-semibold ${result.correct ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {result.correct ? 'Perfect copy!' : `${Math.round(result.score.accuracy * 100)}% of characters copied`}
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex flex-wrap justify-center gap-4 w-full">
+        {prompt !== null && result === null && (
+          <button
+            onClick={handleCheck}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+          >
+            <Send size={18} /> Check
+          </button>
+        )}
+        <button
+          onClick={handleNext}
+          disabled={isFetchingWord || (prompt !== null && result === null)}
+          className="flex items-center gap-2 px-5 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:opacity-50"
+        >
+          <RefreshCw size={18} className={isFetchingWord ? 'animate-spin' : ''} /> {prompt === null ? 'Start' : 'Next'}
+        </button>
+      </div>
+
+      {tally.items > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          This session: {tally.correct}/{tally.items} perfect, {tally.charactersCorrect}/{tally.characters} characters
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,31 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { useLoaderData, useFetcher, Link } from "@remix-run/react";
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
-import { wordToMorse } from '~/utils/morseConverter'; // Import the utility
-import { ArrowLeft, HelpCircle, RefreshCw, Send } from 'lucide-react'; // Icons
+import { encodeText, wordToMorse } from '~/utils/morseConverter'; // Import the utility
+import { diffMorse, type MorseDiff } from '~/utils/morseDiff';
+import { getCodeTable } from '~/utils/morseAlphabet';
+import CodeTableBadge from '~/components/CodeTableBadge';
+import PlayMorseButton from '~/components/PlayMorseButton';
+import SignalTimeline from '~/components/SignalTimeline';
+import MorseInput, { type MorseInputHandle } from '~/components/MorseInput';
+import FistQualityPanel from '~/components/FistQualityPanel';
+import MorseDiffView from '~/components/MorseDiffView';
+import { buildAudioUrl } from '~/utils/morseWav';
+import { countDue, createDeck, DEFAULT_SRS_OPTIONS, pickNext, recordReview, type SrsDeck } from '~/utils/srs';
+import { applyAttempt, createSessionId } from '~/utils/progressStore';
+import { outcomesFromDiff } from '~/utils/stats';
+import { analyzeFist, FIST_WINDOW, getPressDurations, type KeyedAttempt } from '~/utils/fistAnalysis';
+import type { KeyedElement } from '~/utils/keyer';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { useSettings } from '~/hooks/useSettings';
+import { getSettings } from '~/sessions.server';
+import { getWordFromChain, isValidWord, withKnownCharacters } from '~/utils/wordProviders';
+import { buildWordQuery, getWeakCharacters, MAX_EXCLUDED_WORDS } from '~/utils/wordQuery';
+import { SETTINGS_LIMITS, settingsToLessonOrder } from '~/utils/settings';
+import { createKochLesson, getUnlockedCharacters, resolveLessonOrder } from '~/utils/kochLesson';
+import { getWordProviders } from '~/utils/wordProviders.server';
+import { ArrowLeft, Download, HelpCircle, Keyboard, Radio, RefreshCw, Send } from 'lucide-react'; // Icons
 
 export const meta: MetaFunction = () => {
   return [
@@ -14,119 +35,221 @@ export const meta: MetaFunction = () => {
 };
 
 // --- Server-Side Loader ---
-export async function loader({ request }: LoaderFunctionArgs) {
-  const apiKey = process.env.GEMINI_API_KEY;
+// Query parameters are described in ~/utils/wordQuery; every one is optional.
+
+// Reads a numeric query param, falling back when missing and rejecting out-of-range values
+function numberParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const raw = params.get(name);
+  if (raw === null || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new Response(`Invalid "${name}": expected a number between ${min} and ${max}.`, { status: 400 });
+  }
+  return value;
+}
+
+// Reads a letter set such as "KMURES", de-duplicated
+function lettersParam(params: URLSearchParams, name: string): string[] | undefined {
+  const raw = params.get(name)?.toUpperCase();
+  if (!raw) return undefined;
+  if (!/^[A-Z]+$/.test(raw)) {
+    throw new Response(`Invalid "${name}": expected letters A-Z.`, { status: 400 });
+  }
+  return Array.from(new Set(raw));
+}
 
-  if (!apiKey) {
-    console.error("GEMINI_API_KEY is not set in the environment variables.");
-    // Return a default word or error state for the frontend to handle
-    return json({ word: "ERROR", error: "API key not configured." });
+function excludeParam(params: URLSearchParams): string[] | undefined {
+  const raw = params.get('exclude')?.toUpperCase();
+  if (!raw) return undefined;
+  const words = raw.split(',').filter(Boolean);
+  if (words.length > MAX_EXCLUDED_WORDS || words.some(word => !/^[A-Z]+$/.test(word))) {
+    throw new Response(`Invalid "exclude": expected at most ${MAX_EXCLUDED_WORDS} comma-separated words.`, { status: 400 });
+  }
+  return words;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const params = new URL(request.url).searchParams;
+  const { settings } = await getSettings(request);
+  const limits = SETTINGS_LIMITS.wordLength;
+
+  const minLength = Math.round(numberParam(params, 'min', settings.wordMinLength, limits.min, limits.max));
+  const maxLength = Math.round(numberParam(params, 'max', Math.max(minLength, settings.wordMaxLength), minLength, limits.max));
+  const allowedCharacters = lettersParam(params, 'chars');
+  const difficultCharacters = lettersParam(params, 'difficult');
+  const difficultMix = numberParam(params, 'mix', 0, 0, 1);
+  if (difficultMix > 0 && !difficultCharacters) {
+    throw new Response('"mix" needs a "difficult" letter set.', { status: 400 });
   }
+  const wordRequest = { minLength, maxLength, allowedCharacters, difficultCharacters, difficultMix, exclude: excludeParam(params) };
+
+  // Providers are tried in order (see WORD_PROVIDERS); the bundled list keeps this working offline
+  const providers = getWordProviders();
 
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-pro" });
-
-    // Configuration for the API call (optional, adjust as needed)
-    // const generationConfig = {
-    //   temperature: 0.9,
-    //   topK: 1,
-    //   topP: 1,
-    //   maxOutputTokens: 20, // Limit output size
-    // };
-
-     const safetySettings = [
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, },
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE, },
-     ];
-
-
-    const prompt = "Generate a single, common, simple English word between 4 and 8 letters long, suitable for Morse code practice. Only return the word itself, nothing else. Ensure it contains only standard English letters.";
-
-    // Pass safety settings to generateContent
-    const result = await model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        // generationConfig, // Add back if needed
-        safetySettings,
-      });
-
-    const response = result.response;
-    const text = response.text().trim().toUpperCase(); // Ensure uppercase
-
-     // **Stricter Validation:** Check if it's a single word with only letters
-     if (!text || !/^[A-Z]+$/.test(text) || text.includes(' ')) {
-       console.error("Gemini API returned invalid format or non-letter characters:", text);
-       // Fallback or retry logic could go here
-       return json({ word: "HELLO", error: "Received invalid word format, using default." }); // Default fallback
-     }
-
-
-    console.log("Generated word:", text); // Log server-side
-    return json({ word: text, error: null }); // Success
-
-  } catch (error: any) {
-    console.error("Error fetching word from Gemini API:", error);
-     // Provide a slightly more informative error message if possible
-     const errorMessage = error.message?.includes('API key not valid')
-       ? "Invalid API Key."
-       : "Failed to fetch word from API.";
-    // Return a default word or error state
-    return json({ word: "MORSE", error: errorMessage }); // Default fallback
+    const { word, source } = await getWordFromChain(
+      allowedCharacters ? providers.map(provider => withKnownCharacters(provider, allowedCharacters)) : providers,
+      wordRequest,
+    );
+    // Providers only get hints, so the constraints are checked once more before serving
+    if (!isValidWord(word, wordRequest)) throw new Error(`"${word}" does not meet the request.`);
+    return json({ word, source, error: null });
+  } catch (error) {
+    console.error("Error fetching a practice word:", error);
+    // Only filters the learner chose count; "exclude" (words seen this session) is always sent and just a preference
+    const constrained = Boolean(allowedCharacters) || difficultMix > 0;
+    return json({
+      word: constrained ? null : "MORSE", // A default word would break the learner's constraints
+      source: null,
+      error: constrained ? "No new word fits these settings yet, keeping the current one." : "No word source is available, using a default word.",
+    });
   }
 }
 // --- End Server-Side Loader ---
 
 type ValidationState = 'idle' | 'correct' | 'incorrect' | 'hinted';
-type LoaderData = { word: string; error: string | null };
+type AnswerMode = 'type' | 'key'; // Type dots and dashes, or key the word on MorseInput
+const WEAK_LETTER_MIX = 0.25; // Share of each word's letters taken from the weakest letters
+type LoaderData = { word: string | null; source: string | null; error: string | null };
 
 export default function LearnWords() {
   const initialData = useLoaderData<typeof loader>();
   const fetcher = useFetcher<LoaderData>(); // Fetcher for client-side reload trigger
 
-  const [currentWord, setCurrentWord] = useState(initialData.word);
+  const [currentWord, setCurrentWord] = useState(initialData.word ?? 'MORSE');
   const [apiError, setApiError] = useState(initialData.error);
+  const [wordSource, setWordSource] = useState(initialData.source); // Provider that supplied the word, null for reviews
   const [userInput, setUserInput] = useState('');
   const [correctMorse, setCorrectMorse] = useState('');
   const [showHint, setShowHint] = useState(false);
   const [feedback, setFeedback] = useState('');
+  const [diff, setDiff] = useState<MorseDiff | null>(null); // Letter-by-letter mistakes from the last wrong answer
   const [validationState, setValidationState] = useState<ValidationState>('idle');
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('type');
+  const morseInputRef = useRef<MorseInputHandle>(null);
+  const [deck, setDeck] = useState<SrsDeck>(createDeck); // Words seen this session, scheduled for review
+  const wordShownAt = useRef(Date.now()); // For response latency
+  const wordReviewed = useRef(false); // Only the first check of a word is a review; retries are feedback
+  const { progress, update: updateProgress } = useLearnerProgress();
+  const sessionId = useRef(createSessionId());
+  const [keyedAttempts, setKeyedAttempts] = useState<KeyedAttempt[]>([]); // Recent timelines for the fist report
+  const seenWords = useRef<string[]>([currentWord]); // Not served again by the loader this session
+  const [knownOnly, setKnownOnly] = useState(false); // Only letters unlocked in Learn Letters
+  const [focusWeak, setFocusWeak] = useState(false); // Mix in the learner's weakest letters
+
+  const deckRestored = useRef(false);
+
+  // Saved review schedule replaces the empty session deck once it has loaded;
+  // later progress updates come from this page itself
+  useEffect(() => {
+    if (!progress || deckRestored.current) return;
+    deckRestored.current = true;
+    setDeck(progress.srs);
+  }, [progress]);
+  const settings = useSettings();
+  // Generated words are English, so a non-Latin table from settings falls back to the default one
+  const settingsTable = getCodeTable(settings.codeTable);
+  const codeTable = settingsTable.script === 'latin' ? settingsTable : getCodeTable();
 
   const isLoading = fetcher.state === 'loading' || fetcher.state === 'submitting';
 
   // Update state when fetcher loads new data (after "Next Word")
   // This handles both successful fetches and fetches that resulted in an error/default word
+  const showWord = (word: string) => {
+    setCurrentWord(word);
+    if (!seenWords.current.includes(word)) seenWords.current.push(word);
+    // Reset state for the new word (or default word)
+    setUserInput('');
+    setShowHint(false);
+    setFeedback('');
+    setDiff(null);
+    setValidationState('idle');
+    morseInputRef.current?.clearInput();
+    wordShownAt.current = Date.now();
+    wordReviewed.current = false;
+  };
+
   useEffect(() => {
     if (fetcher.data && fetcher.state === 'idle') {
-      setCurrentWord(fetcher.data.word);
+      if (fetcher.data.word) showWord(fetcher.data.word); // null: nothing fits, keep the current word
       setApiError(fetcher.data.error); // Update error state based on fetcher result
-      // Reset state for the new word (or default word)
-      setUserInput('');
-      setShowHint(false);
-      setFeedback('');
-      setValidationState('idle');
+      setWordSource(fetcher.data.source);
     }
   }, [fetcher.data, fetcher.state]);
 
+  // Letters unlocked in Learn Letters for this table, the same lesson LearningInterface restores
+  const unlockedLetters = progress
+    ? getUnlockedCharacters(createKochLesson(
+        { order: resolveLessonOrder(codeTable, settingsToLessonOrder({ ...settings, codeTable: codeTable.id })) },
+        progress.koch[codeTable.id]?.unlockedCount,
+      )).filter(char => /^[A-Z]$/.test(char))
+    : [];
+  const weakLetters = progress ? getWeakCharacters(progress.characterStats) : [];
+  const fistReport = analyzeFist(keyedAttempts);
+
   // Calculate correct Morse code when the word changes (works for default words too)
   useEffect(() => {
-    setCorrectMorse(wordToMorse(currentWord));
-  }, [currentWord]);
+    setCorrectMorse(wordToMorse(currentWord, codeTable));
+  }, [currentWord, codeTable]);
 
-  const handleCheck = () => {
+  const handleCheck = (input: string = userInput, pressDurations: number[] | null = null) => {
     if (isLoading || validationState === 'correct') return; // Prevent check if loading or already correct
 
-    const cleanedInput = userInput.trim().replace(/\s+/g, ' '); // Normalize spaces
-    if (cleanedInput === correctMorse) {
+    const cleanedInput = input.trim().replace(/\s+/g, ' '); // Normalize spaces
+    const now = Date.now();
+    const labels = encodeText(currentWord, { table: codeTable }).tokens.map(token => token.symbol);
+    const answerDiff = diffMorse(correctMorse, cleanedInput, labels);
+    const correct = answerDiff.correct;
+    if (!wordReviewed.current) {
+      wordReviewed.current = true;
+      const latencyMs = now - wordShownAt.current;
+      const nextDeck = recordReview(deck, 'word', currentWord, {
+        correct,
+        latencyMs,
+        hinted: showHint, // validationState is 'hinted' until the next check
+        time: now,
+      }, { ...DEFAULT_SRS_OPTIONS, targetLatencyMs: 1500 * Math.max(1, currentWord.length) });
+      setDeck(nextDeck);
+      updateProgress(current => applyAttempt(
+        { ...current, srs: nextDeck },
+        {
+          sessionId: sessionId.current,
+          mode: 'words',
+          symbols: Array.from(currentWord),
+          correct,
+          time: now,
+          prompt: currentWord,
+          expected: correctMorse,
+          given: cleanedInput,
+          responseMs: latencyMs,
+          pressDurations,
+          characters: outcomesFromDiff(answerDiff, codeTable),
+        },
+      ));
+    }
+    if (correct) {
       setFeedback('Correct!');
+      setDiff(null);
       setValidationState('correct');
       // Optionally auto-fetch next word after correct
       // setTimeout(handleNextWord, 1000);
     } else {
-      setFeedback('Incorrect. Try again or use the hint.');
+      const wrongLetters = answerDiff.letters.filter(letter => !letter.correct).length;
+      setFeedback(`Incorrect: ${wrongLetters} ${wrongLetters === 1 ? 'letter' : 'letters'} to fix. Try again or use the hint.`);
+      setDiff(answerDiff);
       setValidationState('incorrect');
     }
+    return correct;
+  };
+
+  // Keyed answers arrive as a full Morse string from MorseInput's stream mode
+  const handleKeyedInput = (morse: string, timeline: KeyedElement[]) => {
+    setUserInput(morse);
+    setKeyedAttempts(previous => [...previous, { timeline, morse }].slice(-FIST_WINDOW));
+    if (handleCheck(morse, getPressDurations(timeline)) === false) {
+      // Clear after a delay so the user can see what they keyed
+      setTimeout(() => morseInputRef.current?.clearInput(), 1500);
+    }
   };
 
   const handleShowHint = () => {
@@ -138,8 +261,21 @@ export default function LearnWords() {
 
   const handleNextWord = () => {
     if (isLoading) return;
+    // Words due for review come back before any new word is generated
+    const dueWord = pickNext(deck, { kind: 'word', now: Date.now(), exclude: currentWord, includeNotDue: false });
+    if (dueWord && dueWord !== currentWord) {
+      showWord(dueWord);
+      setWordSource(null);
+      return;
+    }
     // Trigger the loader function again
-    fetcher.load('/learn/words');
+    const query = buildWordQuery({
+      allowedCharacters: knownOnly ? unlockedLetters : undefined,
+      difficultCharacters: focusWeak ? weakLetters : undefined,
+      difficultMix: focusWeak && weakLetters.length > 0 ? WEAK_LETTER_MIX : undefined,
+      exclude: seenWords.current,
+    });
+    fetcher.load(`/learn/words?${query}`);
     // State reset happens in the useEffect watching fetcher.data
   };
 
@@ -165,14 +301,23 @@ export default function LearnWords() {
        </Link>
 
       <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Learn Words</h1>
+      <CodeTableBadge table={codeTable} />
+      {countDue(deck, 'word', Date.now()) > 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {countDue(deck, 'word', Date.now())} word(s) due for review
+        </p>
+      )}
 
       {/* Display API Error if present */}
       {apiError && (
         <p className="text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900 p-3 rounded border border-red-300 dark:border-red-700 text-center">
           {/* Display the specific error from the loader */}
-          Warning: {apiError} Using default word.
+          Warning: {apiError}
         </p>
       )}
+      {!apiError && wordSource && !isLoading && (
+        <p className="text-xs text-gray-400 dark:text-gray-500 -mt-4">Word source: {wordSource}</p>
+      )}
 
       {/* Word Display */}
       <div className="text-center bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md w-full">
@@ -181,30 +326,82 @@ export default function LearnWords() {
           {/* Show loading indicator more clearly */}
           {isLoading ? 'LOADING...' : currentWord}
         </p>
+        <div className="flex flex-wrap items-center justify-center gap-3 mt-4">
+          <PlayMorseButton morse={isLoading ? '' : correctMorse} label="Play the word" />
+          {!isLoading && (
+            <a
+              href={buildAudioUrl({ text: currentWord, table: codeTable.id })}
+              download
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              <Download size={18} /> WAV
+            </a>
+          )}
+        </div>
       </div>
 
-      {/* Morse Input Area */}
-      <div className={`w-full p-4 border-2 ${getBorderColor()} rounded bg-white dark:bg-gray-700 transition-colors duration-300`}>
-        <label htmlFor="morseInput" className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">
-          Your Morse Code Input:
+      {/* Answer mode toggle */}
+      <div className="flex rounded-md shadow-sm" role="group" aria-label="Answer mode">
+        <button
+          type="button"
+          onClick={() => setAnswerMode('type')}
+          className={`flex items-center gap-2 px-4 py-2 text-sm rounded-l-md border ${answerMode === 'type' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'}`}
+        >
+          <Keyboard size={16} /> Type
+        </button>
+        <button
+          type="button"
+          onClick={() => setAnswerMode('key')}
+          className={`flex items-center gap-2 px-4 py-2 text-sm rounded-r-md border ${answerMode === 'key' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600'}`}
+        >
+          <Radio size={16} /> Key
+        </button>
+      </div>
+
+      {/* Word constraints, sent to the loader with the next word request */}
+      <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={knownOnly} onChange={(e) => setKnownOnly(e.target.checked)} disabled={unlockedLetters.length === 0} />
+          Only letters I know{unlockedLetters.length > 0 && <span className="font-mono text-xs text-gray-500 dark:text-gray-400">({unlockedLetters.join('')})</span>}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={focusWeak} onChange={(e) => setFocusWeak(e.target.checked)} disabled={weakLetters.length === 0} />
+          Focus on weak letters{weakLetters.length > 0 && <span className="font-mono text-xs text-gray-500 dark:text-gray-400">({weakLetters.join('')})</span>}
         </label>
-        <input
-          id="morseInput"
-          type="text"
-          value={userInput}
-          onChange={(e) => setUserInput(e.target.value)}
-          placeholder="Type . - / and spaces here..."
-          className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 font-mono text-xl text-gray-900 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-          disabled={isLoading || validationState === 'correct'} // Disable input when correct
-          aria-label="Morse code input field"
-        />
       </div>
 
+      {answerMode === 'key' ? (
+        <MorseInput
+          ref={morseInputRef}
+          keyingMode="stream"
+          onInputComplete={handleKeyedInput}
+          validationState={validationState === 'hinted' ? 'idle' : validationState}
+        />
+      ) : (
+        // Morse Input Area
+        <div className={`w-full p-4 border-2 ${getBorderColor()} rounded bg-white dark:bg-gray-700 transition-colors duration-300`}>
+          <label htmlFor="morseInput" className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">
+            Your Morse Code Input:
+          </label>
+          <input
+            id="morseInput"
+            type="text"
+            value={userInput}
+            onChange={(e) => setUserInput(e.target.value)}
+            placeholder="Type . - / and spaces here..."
+            className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded bg-gray-50 dark:bg-gray-800 font-mono text-xl text-gray-900 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            disabled={isLoading || validationState === 'correct'} // Disable input when correct
+            aria-label="Morse code input field"
+          />
+        </div>
+      )}
+
        {/* Hint Display Area */}
        {showHint && (
          <div className="w-full p-3 bg-yellow-100 dark:bg-yellow-900 border border-yellow-300 dark:border-yellow-700 rounded text-center">
            <p className="text-sm text-yellow-800 dark:text-yellow-200 font-medium">Hint (Correct Morse):</p>
            <p className="font-mono text-xl text-yellow-900 dark:text-yellow-100 mt-1">{correctMorse}</p>
+           <div className="mt-2 text-left"><SignalTimeline morse={correctMorse} /></div>
          </div>
        )}
 
@@ -223,10 +420,16 @@ export default function LearnWords() {
         )}
       </div>
 
+      {/* Which letters went wrong, and how */}
+      {diff && validationState !== 'correct' && <MorseDiffView diff={diff} />}
+
+      {/* Sending timing across recent keyed answers */}
+      {answerMode === 'key' && fistReport && <FistQualityPanel report={fistReport} latest={keyedAttempts[keyedAttempts.length - 1]} />}
+
       {/* Action Buttons */}
       <div className="flex flex-wrap justify-center gap-4 mt-4 w-full">
         <button
-          onClick={handleCheck}
+          onClick={() => handleCheck()}
           disabled={isLoading || !userInput || validationState === 'correct'} // Disable check when correct
           className="flex items-center gap-2 px-5 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-opacity"
         >
@@ -0,0 +1,255 @@
+import { useEffect } from 'react';
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { ArrowLeft, Save } from 'lucide-react'; // Icons
+import { commitSettings, getSettings } from '~/sessions.server';
+import { listCodeTables } from '~/utils/morseAlphabet';
+import { parseSettings, SETTINGS_LIMITS, type AppSettings } from '~/utils/settings';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Settings" },
+    { name: "description", content: "Adjust speed, tone, keying and lesson preferences." },
+  ];
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { settings } = await getSettings(request);
+  return json({ settings });
+}
+
+// Saves to the cookie session; the page then mirrors the result into client storage
+export async function action({ request }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const settings = parseSettings(Object.fromEntries(formData));
+  return json({ ok: true, settings }, { headers: { "Set-Cookie": await commitSettings(request, settings) } });
+}
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function Settings() {
+  const { settings: loaded } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const { update: updateProgress } = useLearnerProgress();
+  const settings: AppSettings = actionData?.settings ?? loaded;
+  const isSaving = navigation.state === 'submitting';
+
+  // Keep a client-side copy, so settings survive an expired or cleared cookie
+  useEffect(() => {
+    if (!actionData?.ok) return;
+    updateProgress(current => ({ ...current, settings: { ...actionData.settings } }));
+  }, [actionData, updateProgress]);
+
+  return (
+    <div className="flex flex-col items-center min-h-[calc(100vh-10rem)] py-8 px-4 relative">
+      {/* Back Button */}
+      <Link
+        to="/"
+        className="absolute top-4 left-4 md:top-6 md:left-6 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm"
+        aria-label="Back to Home"
+      >
+        <ArrowLeft size={16} className="mr-1" />
+        Home
+      </Link>
+
+      <h1 className="text-3xl font-bold text-blue-600 dark:text-blue-400 mt-12 mb-8">Settings</h1>
+
+      {/* Re-mount after a save so the uncontrolled fields show the normalized values */}
+      <Form method="post" key={JSON.stringify(settings)} className="w-full max-w-lg flex flex-col gap-6 bg-white dark:bg-gray-700 p-6 rounded-lg shadow-md">
+        <Section title="Sound">
+          <NumberField label="Character speed (WPM)" name="characterWpm" value={settings.characterWpm} limits={SETTINGS_LIMITS.characterWpm} />
+          <NumberField
+            label="Effective speed (WPM)"
+            name="effectiveWpm"
+            value={settings.effectiveWpm}
+            limits={SETTINGS_LIMITS.effectiveWpm}
+            hint="Farnsworth spacing: letters at character speed, longer gaps between them."
+          />
+          <NumberField label="Tone pitch (Hz)" name="tonePitch" value={settings.tonePitch} limits={SETTINGS_LIMITS.tonePitch} step={10} />
+          <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-200">
+            Volume
+            <input
+              type="range"
+              name="volume"
+              min={SETTINGS_LIMITS.volume.min}
+              max={SETTINGS_LIMITS.volume.max}
+              step={0.05}
+              defaultValue={settings.volume}
+              className="w-full"
+            />
+          </label>
+          <SelectField
+            label="Play Morse as"
+            name="playbackOutput"
+            value={settings.playbackOutput}
+            options={[
+              { value: 'sound', label: 'Sound' },
+              { value: 'light', label: 'Flashing light' },
+              { value: 'both', label: 'Sound and light' },
+              { value: 'vibration', label: 'Vibration (phones)' },
+            ]}
+          />
+        </Section>
+
+        <Section title="Keying">
+          <SelectField
+            label="Input mode"
+            name="inputMode"
+            value={settings.inputMode}
+            options={[
+              { value: 'tap', label: 'Tap (on-screen button)' },
+              { value: 'straight', label: 'Straight key (keyboard or gamepad)' },
+              { value: 'paddle', label: 'Iambic paddle' },
+            ]}
+          />
+          <SelectField
+            label="Iambic mode"
+            name="iambicMode"
+            value={settings.iambicMode}
+            options={[
+              { value: 'A', label: 'Mode A' },
+              { value: 'B', label: 'Mode B' },
+            ]}
+          />
+          <NumberField
+            label="Keying speed (WPM)"
+            name="keyingWpm"
+            value={settings.keyingWpm}
+            limits={SETTINGS_LIMITS.keyingWpm}
+            hint="Leave empty to adapt to your own speed."
+          />
+          <CheckboxField
+            label="Vibrate while keying"
+            name="hapticSidetone"
+            checked={settings.hapticSidetone}
+            hint="A haptic sidetone on phones that support vibration."
+          />
+        </Section>
+
+        <Section title="Lessons">
+          <SelectField
+            label="Code table"
+            name="codeTable"
+            value={settings.codeTable}
+            options={listCodeTables().map(table => ({ value: table.id, label: table.name }))}
+          />
+          <SelectField
+            label="Lesson order"
+            name="lessonOrder"
+            value={settings.lessonOrder}
+            options={[
+              { value: 'lcwo', label: 'Koch (LCWO order)' },
+              { value: 'alphabetical', label: 'Alphabetical' },
+              { value: 'custom', label: 'Custom' },
+            ]}
+          />
+          <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-200">
+            Custom order
+            <input type="text" name="customLessonOrder" defaultValue={settings.customLessonOrder} placeholder="KMURESNAPTLW" className={`${inputClasses} font-mono uppercase`} />
+            <span className="text-xs text-gray-500 dark:text-gray-400">Used when the lesson order is Custom. Characters the code table cannot send are skipped.</span>
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField label="Shortest word" name="wordMinLength" value={settings.wordMinLength} limits={SETTINGS_LIMITS.wordLength} />
+            <NumberField label="Longest word" name="wordMaxLength" value={settings.wordMaxLength} limits={SETTINGS_LIMITS.wordLength} />
+          </div>
+        </Section>
+
+        <Section title="Appearance">
+          <SelectField
+            label="Theme"
+            name="theme"
+            value={settings.theme}
+            options={[
+              { value: 'system', label: 'Follow system' },
+              { value: 'light', label: 'Light' },
+              { value: 'dark', label: 'Dark' },
+            ]}
+          />
+        </Section>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-green-600 dark:text-green-400 h-5">
+            {actionData?.ok && !isSaving ? 'Settings saved.' : ''}
+          </p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 transition-colors"
+          >
+            <Save size={18} /> {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </Form>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <fieldset className="flex flex-col gap-4">
+      <legend className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-2">{title}</legend>
+      {children}
+    </fieldset>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  name: string;
+  value: number | null;
+  limits: { min: number; max: number };
+  step?: number;
+  hint?: string;
+}
+
+function NumberField({ label, name, value, limits, step = 1, hint }: NumberFieldProps) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-200">
+      {label}
+      <input type="number" name={name} min={limits.min} max={limits.max} step={step} defaultValue={value ?? ''} className={inputClasses} />
+      {hint && <span className="text-xs text-gray-500 dark:text-gray-400">{hint}</span>}
+    </label>
+  );
+}
+
+interface CheckboxFieldProps {
+  label: string;
+  name: string;
+  checked: boolean;
+  hint?: string;
+}
+
+function CheckboxField({ label, name, checked, hint }: CheckboxFieldProps) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-200">
+      <span className="flex items-center gap-2">
+        <input type="checkbox" name={name} defaultChecked={checked} />
+        {label}
+      </span>
+      {hint && <span className="text-xs text-gray-500 dark:text-gray-400">{hint}</span>}
+    </label>
+  );
+}
+
+interface SelectFieldProps {
+  label: string;
+  name: string;
+  value: string;
+  options: { value: string; label: string }[];
+}
+
+function SelectField({ label, name, value, options }: SelectFieldProps) {
+  return (
+    <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-200">
+      {label}
+      <select name={name} defaultValue={value} className={inputClasses}>
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
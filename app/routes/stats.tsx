@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import type { MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import type { PracticeMode } from '~/utils/progressStore';
+import {
+  filterAttempts,
+  getCharacterAccuracy,
+  getConfusionMatrix,
+  getDailySpeed,
+  getStreaks,
+  getSummary,
+  getTopConfusions,
+} from '~/utils/stats';
+import { getStreakStatus } from '~/utils/motivation';
+import AccuracyBarChart from '~/components/AccuracyBarChart';
+import ConfusionMatrixChart from '~/components/ConfusionMatrixChart';
+import TrendLineChart from '~/components/TrendLineChart';
+import { useLearnerProgress } from '~/hooks/useLearnerProgress';
+import { ArrowLeft } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Statistics" },
+    { name: "description", content: "Accuracy, mix-ups, speed and streaks from your practice." },
+  ];
+};
+
+const MODES: { mode: PracticeMode | undefined; label: string }[] = [
+  { mode: undefined, label: 'All' },
+  { mode: 'letters', label: 'Letters' },
+  { mode: 'words', label: 'Words' },
+  { mode: 'phrases', label: 'Phrases' },
+  { mode: 'receive', label: 'Copy' },
+  { mode: 'drill', label: 'Drills' },
+];
+
+const PERIODS: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'All time' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function Stats() {
+  const { progress } = useLearnerProgress();
+  const [mode, setMode] = useState<PracticeMode | undefined>(undefined);
+  const [periodDays, setPeriodDays] = useState<number | null>(30);
+
+  const entries = progress
+    ? filterAttempts(progress.attempts, { mode, since: periodDays === null ? undefined : Date.now() - periodDays * DAY_MS })
+    : [];
+  const summary = getSummary(entries);
+  // Streaks always count every mode and the whole log; goal days are the streak shown on the home page
+  const streaks = getStreaks(progress?.attempts ?? []);
+  const goalStreak = progress ? getStreakStatus(progress.motivation, Date.now()) : { current: 0, best: 0 };
+  const accuracy = getCharacterAccuracy(entries);
+  const confusions = getConfusionMatrix(entries);
+  const topConfusions = getTopConfusions(confusions);
+  const daily = getDailySpeed(entries);
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md border ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-3xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Statistics</h1>
+
+      {!progress ? (
+        <p className="text-gray-500 dark:text-gray-400">Loading your progress...</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Practice mode">
+            {MODES.map(option => (
+              <button key={option.label} type="button" onClick={() => setMode(option.mode)} className={toggleClass(option.mode === mode)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-center gap-2 -mt-3" role="group" aria-label="Period">
+            {PERIODS.map(option => (
+              <button key={option.label} type="button" onClick={() => setPeriodDays(option.days)} className={toggleClass(option.days === periodDays)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Summary and streaks */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3 w-full">
+            <StatCard label="Attempts" value={String(summary.attempts)} detail={`${summary.sessions} sessions`} />
+            <StatCard label="Accuracy" value={`${Math.round(summary.accuracy * 100)}%`} detail={`${summary.characters} characters`} />
+            <StatCard label="Correct in a row" value={String(streaks.currentCorrect)} detail={`Best ${streaks.bestCorrect}`} />
+            <StatCard label="Days in a row" value={String(streaks.currentDays)} detail={`Best ${streaks.bestDays}`} />
+            <StatCard label="Goal days in a row" value={String(goalStreak.current)} detail={`Best ${goalStreak.best}`} />
+          </div>
+
+          {summary.attempts === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center">
+              No attempts here yet. Practise in any mode and your results show up on this page.
+            </p>
+          ) : (
+            <>
+              <Section title="Accuracy by character">
+                <AccuracyBarChart data={accuracy} />
+              </Section>
+
+              <Section title="Mix-ups">
+                {topConfusions.length > 0 && (
+                  <ul className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                    {topConfusions.map(item => (
+                      <li key={`${item.expected}-${item.given}`}>
+                        <span className="font-mono font-bold">{item.expected}</span> taken for <span className="font-mono font-bold">{item.given}</span>: {item.count}×
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <ConfusionMatrixChart matrix={confusions} />
+              </Section>
+
+              <Section title="Speed over time">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <TrendLineChart
+                    title="Response time per character (lower is faster)"
+                    points={daily.map(day => ({ label: day.day.slice(5), value: day.msPerCharacter }))}
+                    formatValue={value => `${(value / 1000).toFixed(1)}s`}
+                  />
+                  <TrendLineChart
+                    title="Keying speed (WPM)"
+                    points={daily.map(day => ({ label: day.day.slice(5), value: day.keyingWpm }))}
+                    color="#8b5cf6"
+                  />
+                  <TrendLineChart
+                    title="Answers correct per day"
+                    points={daily.map(day => ({ label: day.day.slice(5), value: day.accuracy * 100 }))}
+                    formatValue={value => `${Math.round(value)}%`}
+                    color="#22c55e"
+                  />
+                </div>
+              </Section>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 text-center">
+      <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</p>
+      <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{value}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{detail}</p>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="w-full bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
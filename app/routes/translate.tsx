@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData, useSearchParams, type ShouldRevalidateFunction } from "@remix-run/react";
+import { getSettings } from '~/sessions.server';
+import { getCodeTable, listCodeTables, type CodeTableId } from '~/utils/morseAlphabet';
+import { buildAudioUrl } from '~/utils/morseWav';
+import {
+  buildTranslateQuery,
+  MAX_TRANSLATE_LENGTH,
+  parseTranslateQuery,
+  translate,
+  type TranslateSource,
+  type TranslateState,
+  type Translation,
+} from '~/utils/translator';
+import PlayMorseButton from '~/components/PlayMorseButton';
+import { useSettings } from '~/hooks/useSettings';
+import { ArrowLeft, Check, Copy, Download, Link2 } from 'lucide-react'; // Icons
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "MorseMuse - Translate" },
+    { name: "description", content: "Type text to see and hear it in Morse, or paste Morse to read it." },
+  ];
+};
+
+// The URL state is read on the server, so shared links render with the translation in place
+export async function loader({ request }: LoaderFunctionArgs) {
+  const state = parseTranslateQuery(new URL(request.url).searchParams);
+  const { settings } = await getSettings(request);
+  return json({ state, tableId: getCodeTable(state.tableId ?? settings.codeTable).id });
+}
+
+// Typing only rewrites the query string; the page translates on its own from there
+export const shouldRevalidate: ShouldRevalidateFunction = ({ currentUrl, nextUrl, defaultShouldRevalidate }) =>
+  currentUrl.pathname === nextUrl.pathname ? false : defaultShouldRevalidate;
+
+type CopyTarget = 'text' | 'morse' | 'link';
+
+export default function Translate() {
+  const initial = useLoaderData<typeof loader>();
+  const settings = useSettings();
+  const [, setSearchParams] = useSearchParams();
+  const [state, setState] = useState<TranslateState>(initial.state);
+  const [copied, setCopied] = useState<CopyTarget | null>(null);
+  const table = getCodeTable(state.tableId ?? initial.tableId);
+  const translation = translate(state.source, state.input, table);
+
+  const update = (next: TranslateState) => {
+    setState(next);
+    setCopied(null);
+    setSearchParams(buildTranslateQuery(next), { replace: true, preventScrollReset: true });
+  };
+
+  const handleInput = (source: TranslateSource, input: string) => {
+    update({ ...state, source, input: input.slice(0, MAX_TRANSLATE_LENGTH) });
+  };
+
+  const handleTableChange = (tableId: CodeTableId) => {
+    // Keep what the user typed and translate it with the new table
+    update({ ...state, tableId });
+  };
+
+  const handleCopy = async (target: CopyTarget) => {
+    const value = target === 'text' ? translation.text
+      : target === 'morse' ? translation.morse
+      : `${window.location.origin}/translate?${buildTranslateQuery({ ...state, tableId: table.id })}`;
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(target);
+    } catch {
+      setCopied(null); // Clipboard blocked (insecure context or denied); nothing else to do
+    }
+  };
+
+  // Unknown Morse decodes to '?', which would be sent as a question mark
+  const audioUrl = translation.morse && (state.source === 'text' || translation.invalid.length === 0)
+    ? buildAudioUrl({
+        text: state.source === 'text' ? state.input : translation.text,
+        wpm: settings.characterWpm,
+        farnsworth: settings.effectiveWpm,
+        freq: settings.tonePitch,
+        table: table.id,
+      })
+    : null;
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 md:p-8 w-full max-w-3xl mx-auto relative">
+       {/* Back Button */}
+       <Link
+         to="/"
+         className="absolute top-2 left-2 md:top-4 md:left-4 flex items-center px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm z-10"
+         aria-label="Back to Home"
+       >
+         <ArrowLeft size={16} className="mr-1" />
+         Home
+       </Link>
+
+      <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100 mt-8 md:mt-4">Translate</h1>
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        Code table
+        <select
+          value={table.id}
+          onChange={(e) => handleTableChange(e.target.value as CodeTableId)}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+        >
+          {listCodeTables().map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full">
+        <TranslateBox
+          label="Text"
+          value={state.source === 'text' ? state.input : translation.text}
+          placeholder="Type text here"
+          active={state.source === 'text'}
+          translation={translation}
+          onChange={(value) => handleInput('text', value)}
+          copied={copied === 'text'}
+          onCopy={() => void handleCopy('text')}
+        />
+        <TranslateBox
+          label="Morse"
+          value={state.source === 'morse' ? state.input : translation.morse}
+          placeholder="Or paste Morse, e.g. .... . .-.. .-.. ---"
+          active={state.source === 'morse'}
+          translation={translation}
+          onChange={(value) => handleInput('morse', value)}
+          copied={copied === 'morse'}
+          onCopy={() => void handleCopy('morse')}
+          mono
+        />
+      </div>
+
+      {/* Playback and sharing */}
+      <div className="flex flex-wrap justify-center items-start gap-4 w-full">
+        <PlayMorseButton morse={translation.morse} label="Play" showTimeline />
+        <button
+          type="button"
+          onClick={() => void handleCopy('link')}
+          disabled={!state.input}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {copied === 'link' ? <Check size={18} /> : <Link2 size={18} />} {copied === 'link' ? 'Link copied' : 'Copy link'}
+        </button>
+        {audioUrl && (
+          <a
+            href={audioUrl}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            <Download size={18} /> WAV
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface TranslateBoxProps {
+  label: string;
+  value: string;
+  placeholder: string;
+  active: boolean; // The side the user typed into; invalid input is marked here
+  translation: Translation;
+  onChange: (value: string) => void;
+  copied: boolean;
+  onCopy: () => void;
+  mono?: boolean;
+}
+
+function TranslateBox({ label, value, placeholder, active, translation, onChange, copied, onCopy, mono = false }: TranslateBoxProps) {
+  const invalid = active ? translation.invalid : [];
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-200">{label}</span>
+        <button
+          type="button"
+          onClick={onCopy}
+          disabled={!value}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+          aria-label={`Copy ${label.toLowerCase()}`}
+        >
+          {copied ? <Check size={14} /> : <Copy size={14} />} {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        rows={6}
+        maxLength={MAX_TRANSLATE_LENGTH}
+        spellCheck={false}
+        aria-invalid={invalid.length > 0}
+        className={`w-full p-3 border-2 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          mono ? 'font-mono' : ''
+        } ${invalid.length > 0 ? 'border-red-400 dark:border-red-500' : 'border-gray-300 dark:border-gray-600'}`}
+      />
+      {invalid.length > 0 && (
+        <div className="text-sm">
+          <p className="text-red-600 dark:text-red-400">
+            {invalid.length} {invalid.length === 1 ? 'part' : 'parts'} could not be translated:
+          </p>
+          <p className={`mt-1 p-2 rounded bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words ${mono ? 'font-mono' : ''}`}>
+            {highlight(value, invalid)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The input with the untranslatable ranges marked
+function highlight(value: string, ranges: { start: number; end: number }[]) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > position) parts.push(value.slice(position, range.start));
+    parts.push(
+      <mark key={index} className="bg-red-200 dark:bg-red-800 text-red-900 dark:text-red-100 rounded px-0.5">
+        {value.slice(range.start, range.end)}
+      </mark>,
+    );
+    position = range.end;
+  });
+  parts.push(value.slice(position));
+  return parts;
+}
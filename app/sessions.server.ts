@@ -0,0 +1,40 @@
+import { createCookieSessionStorage } from "@remix-run/node";
+import { parseSettings, type AppSettings } from '~/utils/settings';
+
+// Cookie session carrying the learner's settings, so server-rendered pages use
+// them from the first byte instead of flashing the defaults.
+
+type SessionData = { settings: AppSettings };
+
+// Anyone who knows the fallback secret could sign cookies, so production refuses to start without one
+if (!process.env.SESSION_SECRET) {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production to sign the settings cookie.");
+  }
+  console.warn("SESSION_SECRET is not set; using an insecure development secret for the settings cookie.");
+}
+
+const sessionStorage = createCookieSessionStorage<SessionData>({
+  cookie: {
+    name: "__morsemuse",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    maxAge: 60 * 60 * 24 * 365, // Settings should survive for a year
+    secrets: [process.env.SESSION_SECRET ?? "morsemuse-dev-secret"],
+    secure: process.env.NODE_ENV === "production",
+  },
+});
+
+export async function getSettings(request: Request): Promise<{ settings: AppSettings; hasStoredSettings: boolean }> {
+  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
+  const stored = session.get("settings");
+  return { settings: parseSettings(stored), hasStoredSettings: stored !== undefined };
+}
+
+// Returns the Set-Cookie header value for the updated session
+export async function commitSettings(request: Request, settings: AppSettings): Promise<string> {
+  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
+  session.set("settings", settings);
+  return sessionStorage.commitSession(session);
+}
@@ -0,0 +1,249 @@
+import { getCodeMap, getCodeTable, type CodeTable } from './morseAlphabet';
+
+// Falling-letters arcade game. Letters (and later short words) drop down the
+// playfield and are cleared by keying their Morse code, one character at a
+// time, before they reach the bottom. The engine is a pure, fixed-step state
+// machine: tickGame advances the world by TICK_MS and keyGame applies one keyed
+// character. Randomness comes from a seeded generator kept in the state, so the
+// same seed and the same inputs always play out the same game. The /game route
+// drives the ticks from requestAnimationFrame and renders the state.
+
+export const TICK_MS = 50;
+export const MAX_LEVEL = 10;
+export const LEVEL_UP_CLEARS = 8; // Clears needed per level
+export const COMBO_STEP = 5; // Clears in a row per multiplier step
+export const MAX_MULTIPLIER = 4;
+export const POINTS_PER_CHARACTER = 10;
+
+const START_CHARACTERS = 4; // Known characters in play at level 1
+const CHARACTERS_PER_LEVEL = 2; // Known characters added per level
+const WORD_LEVEL = 3; // First level with words
+const WORD_SHARE = 0.35; // Share of spawns that are words once they are in play
+const LEVEL_SPEEDUP = 0.9; // Fall and spawn times are multiplied by this per level
+const MIN_SPEED_FACTOR = 0.4;
+const MAX_PIECES = 6; // Spawns wait while the playfield is this full
+const SPAWN_MARGIN = 0.08; // Keeps pieces off the left and right edges (0..1 of the width)
+
+export type GameDifficulty = 'easy' | 'normal' | 'hard';
+
+export const GAME_DIFFICULTIES: { [difficulty in GameDifficulty]: { label: string; fallMs: number; spawnMs: number; lives: number } } = {
+    easy: { label: 'Easy', fallMs: 14000, spawnMs: 4000, lives: 5 },
+    normal: { label: 'Normal', fallMs: 10000, spawnMs: 3000, lives: 3 },
+    hard: { label: 'Hard', fallMs: 7000, spawnMs: 2200, lives: 3 },
+};
+
+export interface GameOptions {
+    characters: string[]; // Characters the learner knows, in learning order; levels bring them in a few at a time
+    words: string[]; // Candidate words; only those spelled with characters in play are used
+    difficulty: GameDifficulty;
+    seed: number;
+    table: CodeTable;
+}
+
+export interface FallingPiece {
+    id: number;
+    text: string;
+    codes: string[]; // Morse code per character of text
+    typed: number; // Characters of text keyed so far
+    x: number; // Horizontal centre, 0..1 of the width
+    y: number; // Top is 0, the bottom is reached at 1
+    fallMs: number; // Time to fall the full height
+}
+
+export type GameEvent =
+    | { type: 'cleared'; text: string; points: number }
+    | { type: 'dropped'; text: string } // Reached the bottom, costs a life
+    | { type: 'wrong'; code: string }
+    | { type: 'level'; level: number };
+
+export interface GameState {
+    options: GameOptions;
+    time: number; // Game time in ms, a multiple of TICK_MS
+    random: number; // Seeded generator state
+    nextId: number;
+    nextSpawnAt: number;
+    pieces: FallingPiece[];
+    targetId: number | null; // Word being keyed; the next characters must continue it
+    score: number;
+    lives: number;
+    combo: number; // Clears in a row without a wrong character or a drop
+    bestCombo: number;
+    cleared: number;
+    level: number;
+    over: boolean;
+    events: GameEvent[]; // What happened in the last tickGame or keyGame call
+}
+
+// mulberry32: small, fast and good enough to pick letters
+function nextRandom(state: number): { value: number; state: number } {
+    const next = (state + 0x6d2b79f5) >>> 0;
+    let t = next;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+export function getMultiplier(combo: number): number {
+    return Math.min(MAX_MULTIPLIER, 1 + Math.floor(combo / COMBO_STEP));
+}
+
+// Characters in play at a level: the first few known ones, more each level
+export function getLevelCharacters(characters: string[], level: number): string[] {
+    return characters.slice(0, START_CHARACTERS + (level - 1) * CHARACTERS_PER_LEVEL);
+}
+
+// Words spelled only with the characters in play, growing by a letter per level
+export function getLevelWords(words: string[], characters: string[], level: number): string[] {
+    if (level < WORD_LEVEL) return [];
+    const inPlay = new Set(getLevelCharacters(characters, level));
+    const maxLength = 3 + level - WORD_LEVEL;
+    return words.filter(word => word.length <= maxLength && Array.from(word).every(character => inPlay.has(character)));
+}
+
+function speedFactor(level: number): number {
+    return Math.max(MIN_SPEED_FACTOR, LEVEL_SPEEDUP ** (level - 1));
+}
+
+export function createGame(options: Partial<GameOptions> & Pick<GameOptions, 'characters'>): GameState {
+    const table = options.table ?? getCodeTable();
+    const codeMap = getCodeMap(table);
+    const characters = options.characters.filter(character => codeMap[character]);
+    if (characters.length === 0) throw new Error('The game needs at least one character from the code table.');
+    const difficulty = options.difficulty ?? 'normal';
+    return {
+        options: {
+            characters,
+            words: options.words ?? [],
+            difficulty,
+            seed: options.seed ?? 1,
+            table,
+        },
+        time: 0,
+        random: (options.seed ?? 1) >>> 0,
+        nextId: 1,
+        nextSpawnAt: 0,
+        pieces: [],
+        targetId: null,
+        score: 0,
+        lives: GAME_DIFFICULTIES[difficulty].lives,
+        combo: 0,
+        bestCombo: 0,
+        cleared: 0,
+        level: 1,
+        over: false,
+        events: [],
+    };
+}
+
+function spawnPiece(state: GameState): GameState {
+    const { options, level } = state;
+    const codeMap = getCodeMap(options.table);
+    let random = state.random;
+    const draw = () => {
+        const result = nextRandom(random);
+        random = result.state;
+        return result.value;
+    };
+
+    const words = getLevelWords(options.words, options.characters, level);
+    const useWord = words.length > 0 && draw() < WORD_SHARE;
+    const pool = useWord ? words : getLevelCharacters(options.characters, level);
+    const text = pool[Math.floor(draw() * pool.length)];
+    const codes = Array.from(text).map(character => codeMap[character]);
+    const x = SPAWN_MARGIN + draw() * (1 - 2 * SPAWN_MARGIN);
+    // Longer words get more time to key
+    const fallMs = Math.round(GAME_DIFFICULTIES[options.difficulty].fallMs * speedFactor(level) * (1 + 0.5 * (codes.length - 1)));
+
+    return {
+        ...state,
+        random,
+        nextId: state.nextId + 1,
+        pieces: [...state.pieces, { id: state.nextId, text, codes, typed: 0, x, y: 0, fallMs }],
+    };
+}
+
+// Advances the game by one TICK_MS step
+export function tickGame(state: GameState): GameState {
+    if (state.over) return state.events.length > 0 ? { ...state, events: [] } : state;
+    const time = state.time + TICK_MS;
+    const events: GameEvent[] = [];
+    let { lives, combo, targetId } = state;
+
+    const pieces: FallingPiece[] = [];
+    for (const piece of state.pieces) {
+        const y = piece.y + TICK_MS / piece.fallMs;
+        if (y < 1) {
+            pieces.push({ ...piece, y });
+            continue;
+        }
+        events.push({ type: 'dropped', text: piece.text });
+        lives -= 1;
+        combo = 0;
+        if (targetId === piece.id) targetId = null;
+    }
+
+    let next: GameState = { ...state, time, pieces, lives: Math.max(0, lives), combo, targetId, events };
+    if (lives <= 0) return { ...next, over: true };
+
+    if (time >= next.nextSpawnAt) {
+        const spawnMs = Math.round(GAME_DIFFICULTIES[state.options.difficulty].spawnMs * speedFactor(state.level));
+        if (pieces.length < MAX_PIECES) next = spawnPiece(next);
+        next = { ...next, nextSpawnAt: time + spawnMs };
+    }
+    return next;
+}
+
+// Runs as many whole ticks as fit in elapsedMs; returns the time left over for the next frame
+export function advanceGame(state: GameState, elapsedMs: number): { state: GameState; remainderMs: number } {
+    let next = state;
+    let remaining = elapsedMs;
+    const events: GameEvent[] = [];
+    while (remaining >= TICK_MS && !next.over) {
+        next = tickGame(next);
+        events.push(...next.events);
+        remaining -= TICK_MS;
+    }
+    return { state: next === state ? state : { ...next, events }, remainderMs: next.over ? 0 : remaining };
+}
+
+// Applies one keyed character. It continues the word being keyed, or else starts
+// on the lowest piece that begins with it; anything else breaks the combo.
+export function keyGame(state: GameState, code: string): GameState {
+    if (state.over) return state;
+    const target = state.pieces.find(piece => piece.id === state.targetId)
+        ?? state.pieces
+            .filter(piece => piece.codes[0] === code)
+            .reduce<FallingPiece | undefined>((lowest, piece) => (!lowest || piece.y > lowest.y ? piece : lowest), undefined);
+
+    if (!target || target.codes[target.typed] !== code) {
+        return { ...state, combo: 0, events: [{ type: 'wrong', code }] };
+    }
+
+    const typed = target.typed + 1;
+    if (typed < target.codes.length) {
+        return {
+            ...state,
+            pieces: state.pieces.map(piece => (piece.id === target.id ? { ...piece, typed } : piece)),
+            targetId: target.id,
+            events: [],
+        };
+    }
+
+    const points = POINTS_PER_CHARACTER * target.codes.length * getMultiplier(state.combo) * state.level;
+    const combo = state.combo + 1;
+    const cleared = state.cleared + 1;
+    const level = Math.min(MAX_LEVEL, 1 + Math.floor(cleared / LEVEL_UP_CLEARS));
+    const events: GameEvent[] = [{ type: 'cleared', text: target.text, points }];
+    if (level > state.level) events.push({ type: 'level', level });
+    return {
+        ...state,
+        pieces: state.pieces.filter(piece => piece.id !== target.id),
+        targetId: null,
+        score: state.score + points,
+        combo,
+        bestCombo: Math.max(state.bestCombo, combo),
+        cleared,
+        level,
+        events,
+    };
+}
@@ -0,0 +1,203 @@
+import { DAH, DIT, LETTER_SEPARATOR, WORD_SEPARATOR } from './morseAlphabet';
+import { tokenizeMorse } from './morseDiff';
+import { LETTER_GAP_UNITS, WORD_GAP_UNITS } from './morseTiming';
+import type { KeyedElement } from './keyer';
+
+// "Fist" analysis: how cleanly someone sends, judged from the key-down/key-up
+// timeline MorseInput records. Everything is measured in the sender's own dit
+// unit, so a steady 12 WPM fist scores as well as a steady 25 WPM one; the
+// reference is PARIS timing (dit 1, dah 3, element gap 1, letter gap 3,
+// word gap 7 units).
+
+export interface KeyedAttempt {
+    timeline: KeyedElement[]; // In keying order
+    morse: string; // What the timeline was read as, with ' ' and '/' gaps; used to tell gaps apart
+}
+
+export type FistMetricId = 'ratio' | 'elementSpacing' | 'letterSpacing' | 'wordSpacing' | 'jitter';
+
+export interface FistMetric {
+    id: FistMetricId;
+    label: string;
+    value: number; // Ratio for 'ratio', units for the spacings, a fraction of a unit for 'jitter'
+    ideal: number;
+    spread: number | null; // Coefficient of variation of the samples, null below two samples
+    samples: number;
+    score: number; // 0..1
+    advice: string | null; // Set when the metric needs work
+}
+
+export interface FistReport {
+    unitMs: number; // Sender's dit length
+    wpm: number;
+    elements: number;
+    metrics: FistMetric[]; // Only metrics with samples
+    score: number; // 0..100
+    advice: string[];
+}
+
+const ELEMENT_GAP_UNITS = 1;
+const DAH_UNITS = 3;
+const MIN_ELEMENTS = 3;
+const GOOD_SCORE = 0.8; // Metrics below this get advice
+export const FIST_WINDOW = 10; // Recent keyed attempts the learning screens analyse together
+
+export function getPressDurations(timeline: KeyedElement[]): number[] {
+    return timeline.map(element => element.end - element.start);
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function coefficientOfVariation(values: number[]): number | null {
+    if (values.length < 2) return null;
+    const average = mean(values);
+    const variance = mean(values.map(value => (value - average) ** 2));
+    return average > 0 ? Math.sqrt(variance) / average : null;
+}
+
+type GapKind = 'element' | 'letter' | 'word';
+
+// Kind of every silence in an attempt, from the separators in its Morse. When
+// the Morse does not match the timeline (e.g. it was edited), the gap lengths
+// themselves decide, halfway between the ideal lengths.
+function classifyGaps(attempt: KeyedAttempt, unitMs: number): GapKind[] {
+    const kinds: GapKind[] = [];
+    let pending: GapKind = 'element';
+    let elementCount = 0;
+    for (const token of tokenizeMorse(attempt.morse)) {
+        if (token === WORD_SEPARATOR) pending = 'word';
+        else if (token === LETTER_SEPARATOR) pending = 'letter';
+        else {
+            if (elementCount > 0) kinds.push(pending);
+            pending = 'element';
+            elementCount++;
+        }
+    }
+    if (elementCount === attempt.timeline.length) return kinds;
+
+    return attempt.timeline.slice(1).map((element, index) => {
+        const gap = (element.start - attempt.timeline[index].end) / unitMs;
+        if (gap < (ELEMENT_GAP_UNITS + LETTER_GAP_UNITS) / 2) return 'element';
+        return gap < (LETTER_GAP_UNITS + WORD_GAP_UNITS) / 2 ? 'letter' : 'word';
+    });
+}
+
+// One metric from samples in units: full marks at the ideal, falling off with
+// the distance from it and with inconsistency
+function spacingMetric(id: FistMetricId, label: string, samples: number[], ideal: number, advice: (value: number) => string): FistMetric | null {
+    if (samples.length === 0) return null;
+    const value = mean(samples);
+    const spread = coefficientOfVariation(samples);
+    const offset = Math.abs(value / ideal - 1);
+    const score = clamp01(1 - offset - (spread ?? 0));
+    // Advice targets whichever costs more: the average length or its unevenness
+    const text = offset >= (spread ?? 0) ? advice(value) : `${label} is uneven: aim for ${ideal} dit${ideal === 1 ? '' : 's'} of silence every time.`;
+    return { id, label, value, ideal, spread, samples: samples.length, score, advice: score < GOOD_SCORE ? text : null };
+}
+
+// Attempts sent through the iambic keyer are left out of every metric: its
+// element and gap timing is always exact, so it would score the keyer instead
+// of the learner's fist.
+export function analyzeFist(attempts: KeyedAttempt[]): FistReport | null {
+    const handKeyed = attempts.filter(attempt => !attempt.timeline.some(element => element.keyer));
+    const elements = handKeyed
+        .flatMap(attempt => attempt.timeline)
+        .filter(e => e.element === DIT || e.element === DAH);
+    if (elements.length < MIN_ELEMENTS) return null;
+
+    const dits = elements.filter(e => e.element === DIT).map(e => e.end - e.start);
+    const dahs = elements.filter(e => e.element === DAH).map(e => e.end - e.start);
+    // A dah counts as three dits, so a run of only dahs still gives a unit
+    const unitMs = median([...dits, ...dahs.map(duration => duration / DAH_UNITS)]);
+
+    const gaps: { [kind in GapKind]: number[] } = { element: [], letter: [], word: [] };
+    for (const attempt of handKeyed) {
+        classifyGaps(attempt, unitMs).forEach((kind, index) => {
+            const gap = attempt.timeline[index + 1].start - attempt.timeline[index].end;
+            if (gap >= 0) gaps[kind].push(gap / unitMs);
+        });
+    }
+
+    const metrics: FistMetric[] = [];
+    if (dits.length > 0 && dahs.length > 0) {
+        const ratio = mean(dahs) / mean(dits);
+        const score = clamp01(1 - Math.abs(ratio - DAH_UNITS) / 1.5);
+        metrics.push({
+            id: 'ratio',
+            label: 'Dit/dah ratio',
+            value: ratio,
+            ideal: DAH_UNITS,
+            spread: null,
+            samples: dits.length + dahs.length,
+            score,
+            advice: score >= GOOD_SCORE ? null
+                : ratio < DAH_UNITS ? 'Dahs are too short: hold them for three dits.'
+                : 'Dahs are too long, or dits too clipped: a dah is three dits.',
+        });
+    }
+
+    const spacing = [
+        spacingMetric('elementSpacing', 'Spacing inside letters', gaps.element, ELEMENT_GAP_UNITS, value =>
+            value > ELEMENT_GAP_UNITS ? 'Gaps inside letters drag: keep the elements of a letter together.' : 'Elements run into each other: leave one dit of silence between them.'),
+        spacingMetric('letterSpacing', 'Letter spacing', gaps.letter, LETTER_GAP_UNITS, value =>
+            value > LETTER_GAP_UNITS ? 'Letters are spaced too far apart: three dits of silence is enough.' : 'Letters crowd each other: leave three dits of silence between them.'),
+        spacingMetric('wordSpacing', 'Word spacing', gaps.word, WORD_GAP_UNITS, value =>
+            value > WORD_GAP_UNITS ? 'Pauses between words are long: aim for seven dits.' : 'Words run together: pause seven dits between them.'),
+    ];
+    metrics.push(...spacing.filter((metric): metric is FistMetric => metric !== null));
+
+    // Jitter: how far each element and element gap lands from its ideal length, as a share of a unit
+    const deviations = [
+        ...dits.map(duration => duration / unitMs - 1),
+        ...dahs.map(duration => duration / unitMs - DAH_UNITS),
+        ...gaps.element.map(gap => gap - ELEMENT_GAP_UNITS),
+    ];
+    const jitter = Math.sqrt(mean(deviations.map(deviation => deviation ** 2)));
+    const jitterScore = clamp01(1 - jitter);
+    metrics.push({
+        id: 'jitter',
+        label: 'Timing jitter',
+        value: jitter,
+        ideal: 0,
+        spread: null,
+        samples: deviations.length,
+        score: jitterScore,
+        advice: jitterScore < GOOD_SCORE ? 'Timing wobbles: send slower and keep a steady rhythm.' : null,
+    });
+
+    return {
+        unitMs,
+        wpm: 1200 / unitMs,
+        elements: elements.length,
+        metrics,
+        score: Math.round(mean(metrics.map(metric => metric.score)) * 100),
+        advice: metrics.map(metric => metric.advice).filter((advice): advice is string => advice !== null),
+    };
+}
+
+// Ideal timeline for the same Morse at a given unit, starting at `start`; for
+// comparing what was keyed against what PARIS timing asks for
+export function idealTimeline(morse: string, unitMs: number, start = 0): KeyedElement[] {
+    const timeline: KeyedElement[] = [];
+    let time = start;
+    let gap = 0;
+    for (const token of tokenizeMorse(morse)) {
+        if (token === WORD_SEPARATOR) gap = WORD_GAP_UNITS;
+        else if (token === LETTER_SEPARATOR) gap = LETTER_GAP_UNITS;
+        else if (token === DIT || token === DAH) {
+            time += (timeline.length > 0 ? gap : 0) * unitMs;
+            const length = (token === DAH ? DAH_UNITS : 1) * unitMs;
+            timeline.push({ element: token, start: time, end: time + length });
+            time += length;
+            gap = ELEMENT_GAP_UNITS;
+        }
+    }
+    return timeline;
+}
@@ -0,0 +1,63 @@
+import type { Paddle } from './keyer';
+
+// Keyboard and gamepad mappings for MorseInput.
+// Keys are matched on KeyboardEvent.code so layouts do not matter, and USB
+// keyers that present themselves as keyboards work by binding the codes they send.
+
+export type InputMode = 'tap' | 'straight' | 'paddle';
+
+export interface KeyBindings {
+    straightKey: string[];
+    ditPaddle: string[];
+    dahPaddle: string[];
+    reversePaddles: boolean; // Swap dit and dah for left-handed operators
+}
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    straightKey: ['Space'],
+    ditPaddle: ['BracketLeft', 'ControlLeft'],
+    dahPaddle: ['BracketRight', 'ControlRight'],
+    reversePaddles: false,
+};
+
+// Standard Gamepad API layout: A / bottom face button for the straight key,
+// left and right shoulder buttons as paddles
+export const GAMEPAD_STRAIGHT_KEY_BUTTONS = [0];
+export const GAMEPAD_DIT_BUTTONS = [4];
+export const GAMEPAD_DAH_BUTTONS = [5];
+
+export type KeyAction = { kind: 'straight' } | { kind: 'paddle'; paddle: Paddle } | null;
+
+function resolvePaddle(paddle: Paddle, bindings: KeyBindings): Paddle {
+    if (!bindings.reversePaddles) return paddle;
+    return paddle === 'dit' ? 'dah' : 'dit';
+}
+
+export function keyAction(code: string, mode: InputMode, bindings: KeyBindings = DEFAULT_KEY_BINDINGS): KeyAction {
+    if (mode === 'straight' && bindings.straightKey.includes(code)) return { kind: 'straight' };
+    if (mode === 'paddle') {
+        if (bindings.ditPaddle.includes(code)) return { kind: 'paddle', paddle: resolvePaddle('dit', bindings) };
+        if (bindings.dahPaddle.includes(code)) return { kind: 'paddle', paddle: resolvePaddle('dah', bindings) };
+    }
+    return null;
+}
+
+export interface GamepadSnapshot {
+    straight: boolean;
+    dit: boolean;
+    dah: boolean;
+}
+
+// Collapses every connected pad into one pressed/not-pressed state per control
+export function readGamepads(pads: ReadonlyArray<Gamepad | null>, bindings: KeyBindings = DEFAULT_KEY_BINDINGS): GamepadSnapshot {
+    const anyPressed = (pad: Gamepad, buttons: number[]) => buttons.some(b => pad.buttons[b]?.pressed);
+    const snapshot: GamepadSnapshot = { straight: false, dit: false, dah: false };
+    for (const pad of pads) {
+        if (!pad) continue;
+        snapshot.straight ||= anyPressed(pad, GAMEPAD_STRAIGHT_KEY_BUTTONS);
+        snapshot.dit ||= anyPressed(pad, GAMEPAD_DIT_BUTTONS);
+        snapshot.dah ||= anyPressed(pad, GAMEPAD_DAH_BUTTONS);
+    }
+    if (bindings.reversePaddles) return { ...snapshot, dit: snapshot.dah, dah: snapshot.dit };
+    return snapshot;
+}
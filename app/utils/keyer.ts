@@ -0,0 +1,122 @@
+// Iambic paddle keyer as a pure state machine.
+// Feed it paddle events and clock ticks with timestamps (ms); it returns the
+// next state plus any elements that started. No timers or DOM inside, so the
+// caller decides how time advances (setTimeout in the browser, plain numbers in tests).
+//
+// Mode A: squeezing alternates dits and dahs; releasing both paddles stops after
+//         the element in progress.
+// Mode B: like A, but if the paddles were squeezed during the element in
+//         progress, one extra opposite element is sent after release.
+// Both modes latch the opposite paddle if it is tapped mid-element (paddle memory).
+
+export type IambicMode = 'A' | 'B';
+export type Paddle = 'dit' | 'dah';
+export type KeyerElement = '.' | '-';
+
+export interface KeyerOptions {
+    mode: IambicMode;
+    ditMs: number;
+}
+
+export interface KeyedElement {
+    element: KeyerElement;
+    start: number; // Key down
+    end: number; // Key up
+    keyer?: boolean; // Timed by the iambic keyer rather than the learner's hand
+}
+
+export interface KeyerState {
+    options: KeyerOptions;
+    ditPressed: boolean;
+    dahPressed: boolean;
+    current: (KeyedElement & { spaceEnd: number }) | null; // Element being sent plus its trailing element gap
+    memory: KeyerElement | null;
+    squeezed: boolean; // Both paddles were down at some point during `current`
+}
+
+export type KeyerEvent =
+    | { type: 'press'; paddle: Paddle; time: number }
+    | { type: 'release'; paddle: Paddle; time: number }
+    | { type: 'tick'; time: number };
+
+export interface KeyerStep {
+    state: KeyerState;
+    started: KeyedElement[];
+}
+
+const opposite = (element: KeyerElement): KeyerElement => (element === '.' ? '-' : '.');
+const paddleElement = (paddle: Paddle): KeyerElement => (paddle === 'dit' ? '.' : '-');
+
+export function createKeyer(options: KeyerOptions): KeyerState {
+    return { options, ditPressed: false, dahPressed: false, current: null, memory: null, squeezed: false };
+}
+
+export function setKeyerOptions(state: KeyerState, options: Partial<KeyerOptions>): KeyerState {
+    return { ...state, options: { ...state.options, ...options } };
+}
+
+function startElement(state: KeyerState, element: KeyerElement, time: number): KeyerState {
+    const length = element === '.' ? state.options.ditMs : state.options.ditMs * 3;
+    return {
+        ...state,
+        current: { element, start: time, end: time + length, spaceEnd: time + length + state.options.ditMs },
+        squeezed: state.ditPressed && state.dahPressed,
+    };
+}
+
+// What to send once the current element and its gap are over, or null to go idle
+function chooseNext(state: KeyerState, last: KeyerElement): KeyerElement | null {
+    if (state.memory) return state.memory;
+    if (state.ditPressed && state.dahPressed) return opposite(last);
+    if (state.ditPressed) return '.';
+    if (state.dahPressed) return '-';
+    if (state.options.mode === 'B' && state.squeezed) return opposite(last);
+    return null;
+}
+
+// Runs the machine forward to `time`, starting every element that is due on the way
+function advance(state: KeyerState, time: number, started: KeyedElement[]): KeyerState {
+    let next = state;
+    while (next.current && time >= next.current.spaceEnd) {
+        const { element: last, spaceEnd } = next.current;
+        const element = chooseNext(next, last);
+        next = { ...next, current: null, memory: null, squeezed: false };
+        if (element) {
+            next = startElement(next, element, spaceEnd);
+            if (next.current) started.push({ element: next.current.element, start: next.current.start, end: next.current.end, keyer: true });
+        }
+    }
+    return next;
+}
+
+export function keyerStep(state: KeyerState, event: KeyerEvent): KeyerStep {
+    const started: KeyedElement[] = [];
+    let next = advance(state, event.time, started);
+
+    if (event.type === 'press' || event.type === 'release') {
+        const pressed = event.type === 'press';
+        next = event.paddle === 'dit' ? { ...next, ditPressed: pressed } : { ...next, dahPressed: pressed };
+
+        if (pressed) {
+            const element = paddleElement(event.paddle);
+            if (!next.current) {
+                next = startElement(next, element, event.time);
+                if (next.current) started.push({ element, start: next.current.start, end: next.current.end, keyer: true });
+            } else if (next.current.element !== element) {
+                next = { ...next, memory: element }; // Paddle memory
+            }
+        }
+        if (next.current && next.ditPressed && next.dahPressed) next = { ...next, squeezed: true };
+    }
+
+    return { state: next, started };
+}
+
+// When the caller should send the next tick, or null while idle
+export function nextKeyerDeadline(state: KeyerState): number | null {
+    return state.current ? state.current.spaceEnd : null;
+}
+
+export function isKeyDown(state: KeyerState, time: number): boolean {
+    return !!state.current && time >= state.current.start && time < state.current.end;
+}
@@ -0,0 +1,117 @@
+import { ditLengthMs, LETTER_GAP_UNITS, WORD_GAP_UNITS } from './morseTiming';
+
+// Learns the user's dit length from recent key presses.
+// Press durations are split into a short (dit) and long (dah) cluster with a
+// small 1-D k-means; the dit estimate combines both clusters (a dah counts as
+// three dits). All thresholds used to classify keying are derived from it.
+
+export const DEFAULT_DIT_MS = 150;
+const WINDOW_SIZE = 24; // Presses kept for the estimate
+const MIN_DIT_MS = 30; // ~40 WPM
+const MAX_DIT_MS = 400; // ~3 WPM
+const CLUSTER_RATIO = 1.8; // Below this the presses are treated as one cluster
+
+export interface KeyingCalibration {
+    estimatedDitMs: number;
+    overrideDitMs: number | null; // Manual speed, wins over the estimate while set
+    recentPresses: number[];
+}
+
+export interface KeyingThresholds {
+    ditMs: number;
+    dahThreshold: number; // Presses at least this long are dahs
+    letterGap: number; // Silence that ends a character
+    wordGap: number; // Silence that ends a word
+}
+
+export interface CalibrationInfo {
+    ditMs: number;
+    wpm: number;
+    isManual: boolean;
+    sampleCount: number;
+}
+
+const clampDit = (ms: number) => Math.min(MAX_DIT_MS, Math.max(MIN_DIT_MS, ms));
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export function createCalibration(initialDitMs: number = DEFAULT_DIT_MS): KeyingCalibration {
+    return { estimatedDitMs: clampDit(initialDitMs), overrideDitMs: null, recentPresses: [] };
+}
+
+// Two-cluster split of press durations; returns null when they look like one cluster
+function splitPresses(presses: number[]): { short: number[]; long: number[] } | null {
+    const min = Math.min(...presses);
+    const max = Math.max(...presses);
+    if (max / min < CLUSTER_RATIO) return null;
+
+    let shortCentre = min;
+    let longCentre = max;
+    let short: number[] = [];
+    let long: number[] = [];
+    for (let iteration = 0; iteration < 10; iteration++) {
+        const boundary = (shortCentre + longCentre) / 2;
+        short = presses.filter(p => p < boundary);
+        long = presses.filter(p => p >= boundary);
+        const nextShort = mean(short);
+        const nextLong = mean(long);
+        if (nextShort === shortCentre && nextLong === longCentre) break;
+        shortCentre = nextShort;
+        longCentre = nextLong;
+    }
+    return longCentre / shortCentre >= CLUSTER_RATIO ? { short, long } : null;
+}
+
+function estimateDit(presses: number[], previousDit: number): number {
+    if (presses.length === 0) return previousDit;
+    const clusters = splitPresses(presses);
+    if (clusters) {
+        // Every dah is worth a third of its length in dits
+        const total = clusters.short.reduce((s, p) => s + p, 0) + clusters.long.reduce((s, p) => s + p / 3, 0);
+        return clampDit(total / presses.length);
+    }
+    // One cluster only: decide whether the user has been sending dits or dahs
+    const average = mean(presses);
+    return clampDit(average < previousDit * 2 ? average : average / 3);
+}
+
+export function recordPress(calibration: KeyingCalibration, durationMs: number): KeyingCalibration {
+    if (!(durationMs > 0)) return calibration;
+    const recentPresses = [...calibration.recentPresses, durationMs].slice(-WINDOW_SIZE);
+    return {
+        ...calibration,
+        recentPresses,
+        estimatedDitMs: estimateDit(recentPresses, calibration.estimatedDitMs),
+    };
+}
+
+export function getDitMs(calibration: KeyingCalibration): number {
+    return calibration.overrideDitMs ?? calibration.estimatedDitMs;
+}
+
+export function getThresholds(calibration: KeyingCalibration): KeyingThresholds {
+    const ditMs = getDitMs(calibration);
+    return {
+        ditMs,
+        dahThreshold: ditMs * 2, // Halfway between a 1-unit dit and a 3-unit dah
+        letterGap: ditMs * LETTER_GAP_UNITS,
+        wordGap: ditMs * WORD_GAP_UNITS,
+    };
+}
+
+export function classifyPress(calibration: KeyingCalibration, durationMs: number): '.' | '-' {
+    return durationMs < getThresholds(calibration).dahThreshold ? '.' : '-';
+}
+
+export function setManualWpm(calibration: KeyingCalibration, wpm: number | null): KeyingCalibration {
+    return { ...calibration, overrideDitMs: wpm && wpm > 0 ? clampDit(ditLengthMs(wpm)) : null };
+}
+
+export function getCalibrationInfo(calibration: KeyingCalibration): CalibrationInfo {
+    const ditMs = getDitMs(calibration);
+    return {
+        ditMs,
+        wpm: Math.round((1200 / ditMs) * 10) / 10,
+        isManual: calibration.overrideDitMs !== null,
+        sampleCount: calibration.recentPresses.length,
+    };
+}
@@ -0,0 +1,117 @@
+import { getCodeMap, getSymbols, type CodeTable } from './morseAlphabet';
+
+// Koch-method lesson engine.
+// The learner starts with two characters and practises random groups made only
+// of characters already unlocked. Once accuracy over a rolling window of recent
+// attempts reaches the threshold, the next character in the order is unlocked.
+
+// Character order used by LCWO (Learn CW Online)
+export const LCWO_ORDER = [
+    'K', 'M', 'U', 'R', 'E', 'S', 'N', 'A', 'P', 'T', 'L', 'W', 'I', '.', 'J', 'Z', '=', 'F', 'O', 'Y', ',',
+    'V', 'G', '5', '/', 'Q', '9', '2', 'H', '3', '8', 'B', '?', '4', '7', 'C', '1', 'D', '6', '0', 'X',
+];
+
+export interface KochOptions {
+    order: string[];
+    startCount: number; // Characters available in the first lesson
+    windowSize: number; // Attempts considered for the unlock decision
+    unlockAccuracy: number; // 0..1
+    groupSize: number; // Characters per practice group
+}
+
+export const DEFAULT_KOCH_OPTIONS: KochOptions = {
+    order: LCWO_ORDER,
+    startCount: 2,
+    windowSize: 20,
+    unlockAccuracy: 0.9,
+    groupSize: 5,
+};
+
+export interface KochState {
+    options: KochOptions;
+    unlockedCount: number;
+    recent: boolean[]; // Results since the last unlock, newest last, at most windowSize
+}
+
+export interface KochAttemptResult {
+    state: KochState;
+    unlocked: string | null; // Character unlocked by this attempt, if any
+}
+
+export function createKochLesson(options: Partial<KochOptions> = {}, unlockedCount?: number): KochState {
+    const merged = { ...DEFAULT_KOCH_OPTIONS, ...options };
+    const order = Array.from(new Set(merged.order)); // Duplicates would stall progression
+    const start = Math.min(order.length, Math.max(1, unlockedCount ?? merged.startCount));
+    return { options: { ...merged, order }, unlockedCount: start, recent: [] };
+}
+
+export function getUnlockedCharacters(state: KochState): string[] {
+    return state.options.order.slice(0, state.unlockedCount);
+}
+
+export function getNewestCharacter(state: KochState): string | undefined {
+    return state.options.order[state.unlockedCount - 1];
+}
+
+export function getNextCharacter(state: KochState): string | undefined {
+    return state.options.order[state.unlockedCount];
+}
+
+// Accuracy over the rolling window, 0 when nothing was attempted yet
+export function getWindowAccuracy(state: KochState): number {
+    if (state.recent.length === 0) return 0;
+    return state.recent.filter(Boolean).length / state.recent.length;
+}
+
+export function isLessonComplete(state: KochState): boolean {
+    return state.unlockedCount >= state.options.order.length;
+}
+
+// Every character unlocked and the final window passed as well
+export function isLessonMastered(state: KochState): boolean {
+    return isLessonComplete(state)
+        && state.recent.length >= state.options.windowSize
+        && getWindowAccuracy(state) >= state.options.unlockAccuracy;
+}
+
+export function recordKochAttempt(state: KochState, correct: boolean): KochAttemptResult {
+    const recent = [...state.recent, correct].slice(-state.options.windowSize);
+    const windowFull = recent.length >= state.options.windowSize;
+    const accuracy = recent.filter(Boolean).length / recent.length;
+
+    if (windowFull && accuracy >= state.options.unlockAccuracy && !isLessonComplete(state)) {
+        const unlocked = state.options.order[state.unlockedCount];
+        return { state: { ...state, unlockedCount: state.unlockedCount + 1, recent: [] }, unlocked };
+    }
+    return { state: { ...state, recent }, unlocked: null };
+}
+
+// Random practice group from the unlocked characters. The newest character is
+// weighted double so it gets the extra practice it needs.
+export function generatePracticeGroup(state: KochState, random: () => number = Math.random, size = state.options.groupSize): string[] {
+    const pool = getUnlockedCharacters(state);
+    const newest = getNewestCharacter(state);
+    const weighted = newest && pool.length > 1 ? [...pool, newest] : pool;
+    const group: string[] = [];
+    for (let i = 0; i < size; i++) {
+        group.push(weighted[Math.floor(random() * weighted.length)]);
+    }
+    return group;
+}
+
+// Keeps only characters the active code table can send, so custom orders and
+// non-ITU tables never produce prompts without a code
+export function orderForTable(order: string[], available: string[]): string[] {
+    const allowed = new Set(available);
+    return order.filter(char => allowed.has(char));
+}
+
+// Lesson order for a table: the preferred order (settings or a prop) restricted
+// to sendable characters, or the table default when that leaves fewer than two,
+// since a lesson needs at least two characters to choose from
+export function resolveLessonOrder(table: CodeTable, preferred?: string[]): string[] {
+    const available = Object.keys(getCodeMap(table));
+    const defaultOrder = table.id === 'itu' ? LCWO_ORDER : getSymbols(table, 'letter').map(l => l.symbol);
+    const order = preferred ? orderForTable(preferred, available) : [];
+    return order.length >= 2 ? order : orderForTable(defaultOrder, available);
+}
@@ -0,0 +1,216 @@
+// Shared Morse alphabet registry.
+// Every component and utility should read codes from here instead of keeping
+// its own copy of the map, so the selectable code tables stay in one place.
+
+// Element symbols used inside a Morse code string
+export const DIT = '.';
+export const DAH = '-';
+export const LONG_DAH = '⸺'; // American Morse "L"
+export const EXTRA_LONG_DAH = '⸻'; // American Morse "0"
+export const SPACED_GAP = '_'; // American Morse intra-character space (e.g. "O" = "._.")
+
+// Separators between letters and words in a Morse string
+export const LETTER_SEPARATOR = ' ';
+export const WORD_SEPARATOR = '/';
+
+export type CodeTableId = 'itu' | 'american' | 'cyrillic';
+export type CodeTableScript = 'latin' | 'cyrillic';
+export type SymbolCategory = 'letter' | 'digit' | 'punctuation' | 'accented' | 'prosign';
+
+export interface MorseSymbol {
+    symbol: string; // Text form, prosigns are written in angle brackets: '<SK>'
+    code: string; // Elements only, no separators
+    category: SymbolCategory;
+}
+
+export interface CodeTable {
+    id: CodeTableId;
+    name: string;
+    shortName: string; // Compact label for badges
+    description: string;
+    script: CodeTableScript;
+    // Length of each element in dit units. Elements listed in `gaps` are silent.
+    elementUnits: { [element: string]: number };
+    gaps: { [element: string]: number };
+    // Order matters: when two symbols share a code, the first one is what decoding returns
+    symbols: MorseSymbol[];
+}
+
+// Small helper to keep the tables below readable
+const group = (category: SymbolCategory, codes: { [symbol: string]: string }): MorseSymbol[] =>
+    Object.entries(codes).map(([symbol, code]) => ({ symbol, code, category }));
+
+const ITU_LETTERS = {
+    'A': '.-', 'B': '-...', 'C': '-.-.', 'D': '-..', 'E': '.', 'F': '..-.',
+    'G': '--.', 'H': '....', 'I': '..', 'J': '.---', 'K': '-.-', 'L': '.-..',
+    'M': '--', 'N': '-.', 'O': '---', 'P': '.--.', 'Q': '--.-', 'R': '.-.',
+    'S': '...', 'T': '-', 'U': '..-', 'V': '...-', 'W': '.--', 'X': '-..-',
+    'Y': '-.--', 'Z': '--..',
+};
+
+const ITU_DIGITS = {
+    '1': '.----', '2': '..---', '3': '...--', '4': '....-', '5': '.....',
+    '6': '-....', '7': '--...', '8': '---..', '9': '----.', '0': '-----',
+};
+
+const ITU_PUNCTUATION = {
+    '.': '.-.-.-', ',': '--..--', '?': '..--..', "'": '.----.', '!': '-.-.--',
+    '/': '-..-.', '(': '-.--.', ')': '-.--.-', '&': '.-...', ':': '---...',
+    ';': '-.-.-.', '=': '-...-', '+': '.-.-.', '-': '-....-', '_': '..--.-',
+    '"': '.-..-.', '$': '...-..-', '@': '.--.-.',
+};
+
+// Non-English Latin extensions. Some share a code (Ä/Æ, À/Å, Ö/Ø), the first one wins on decode.
+const ITU_ACCENTED = {
+    'Ä': '.-.-', 'Æ': '.-.-', 'À': '.--.-', 'Å': '.--.-', 'Ç': '-.-..',
+    'Ð': '..--.', 'È': '.-..-', 'É': '..-..', 'Ĝ': '--.-.', 'Ĥ': '----',
+    'Ĵ': '.---.', 'Ñ': '--.--', 'Ö': '---.', 'Ø': '---.', 'Ŝ': '...-.',
+    'Þ': '.--..', 'Ü': '..--', 'Ŭ': '..--', 'Ź': '--..-.', 'Ż': '--..-',
+};
+
+// Prosigns are sent as one character with no letter gap.
+// <AR>, <BT>, <KN> and <AS> share codes with +, =, ( and &, which stay the decoded form.
+const PROSIGNS = {
+    '<AR>': '.-.-.', '<AS>': '.-...', '<BK>': '-...-.-', '<BT>': '-...-',
+    '<CT>': '-.-.-', '<HH>': '........', '<KN>': '-.--.', '<SK>': '...-.-',
+    '<SN>': '...-.', '<SOS>': '...---...',
+};
+
+const AMERICAN_LETTERS = {
+    'A': '.-', 'B': '-...', 'C': '.._.', 'D': '-..', 'E': '.', 'F': '.-.',
+    'G': '--.', 'H': '....', 'I': '..', 'J': '-.-.', 'K': '-.-', 'L': LONG_DAH,
+    'M': '--', 'N': '-.', 'O': '._.', 'P': '.....', 'Q': '..-.', 'R': '._..',
+    'S': '...', 'T': '-', 'U': '..-', 'V': '...-', 'W': '.--', 'X': '.-..',
+    'Y': '.._..', 'Z': '..._.',
+};
+
+const AMERICAN_DIGITS = {
+    '1': '.--.', '2': '..-..', '3': '...-.', '4': '....-', '5': '---',
+    '6': '......', '7': '--..', '8': '-....', '9': '-..-', '0': EXTRA_LONG_DAH,
+};
+
+const AMERICAN_PUNCTUATION = {
+    '.': '..--..', ',': '.-.-', '?': '-..-.', '!': '---.', '&': '._...',
+};
+
+// Russian alphabet (GOST), Ё is sent as Е
+const CYRILLIC_LETTERS = {
+    'А': '.-', 'Б': '-...', 'В': '.--', 'Г': '--.', 'Д': '-..', 'Е': '.',
+    'Ё': '.', 'Ж': '...-', 'З': '--..', 'И': '..', 'Й': '.---', 'К': '-.-',
+    'Л': '.-..', 'М': '--', 'Н': '-.', 'О': '---', 'П': '.--.', 'Р': '.-.',
+    'С': '...', 'Т': '-', 'У': '..-', 'Ф': '..-.', 'Х': '....', 'Ц': '-.-.',
+    'Ч': '---.', 'Ш': '----', 'Щ': '--.-', 'Ъ': '--.--', 'Ы': '-.--', 'Ь': '-..-',
+    'Э': '..-..', 'Ю': '..--', 'Я': '.-.-',
+};
+
+const CYRILLIC_PUNCTUATION = {
+    '.': '......', ',': '.-.-.-', '?': '..--..', '!': '--..--', ':': '---...',
+    ';': '-.-.-.', '-': '-....-', '/': '-..-.', '(': '-.--.-', '"': '.-..-.',
+};
+
+const ITU_ELEMENT_UNITS = { [DIT]: 1, [DAH]: 3 };
+
+export const CODE_TABLES: { [id in CodeTableId]: CodeTable } = {
+    itu: {
+        id: 'itu',
+        name: 'International (ITU)',
+        shortName: 'ITU',
+        description: 'ITU-R M.1677 International Morse with accented letters and prosigns.',
+        script: 'latin',
+        elementUnits: ITU_ELEMENT_UNITS,
+        gaps: {},
+        symbols: [
+            ...group('letter', ITU_LETTERS),
+            ...group('digit', ITU_DIGITS),
+            ...group('punctuation', ITU_PUNCTUATION),
+            ...group('accented', ITU_ACCENTED),
+            ...group('prosign', PROSIGNS),
+        ],
+    },
+    american: {
+        id: 'american',
+        name: 'American (Railroad)',
+        shortName: 'AM',
+        description: 'Landline telegraph code with spaced letters and long dashes for L and 0.',
+        script: 'latin',
+        elementUnits: { [DIT]: 1, [DAH]: 2, [LONG_DAH]: 4, [EXTRA_LONG_DAH]: 5 },
+        gaps: { [SPACED_GAP]: 2 },
+        symbols: [
+            ...group('letter', AMERICAN_LETTERS),
+            ...group('digit', AMERICAN_DIGITS),
+            ...group('punctuation', AMERICAN_PUNCTUATION),
+        ],
+    },
+    cyrillic: {
+        id: 'cyrillic',
+        name: 'Russian (Cyrillic)',
+        shortName: 'RU',
+        description: 'Russian Cyrillic alphabet with ITU digits and prosigns.',
+        script: 'cyrillic',
+        elementUnits: ITU_ELEMENT_UNITS,
+        gaps: {},
+        symbols: [
+            ...group('letter', CYRILLIC_LETTERS),
+            ...group('digit', ITU_DIGITS),
+            ...group('punctuation', CYRILLIC_PUNCTUATION),
+            ...group('prosign', PROSIGNS),
+        ],
+    },
+};
+
+export const DEFAULT_CODE_TABLE_ID: CodeTableId = 'itu';
+
+// Own keys only: ids come from URLs, cookies and imported files, and 'toString' must not pass
+export function isCodeTableId(value: unknown): value is CodeTableId {
+    return typeof value === 'string' && Object.hasOwn(CODE_TABLES, value);
+}
+
+export function getCodeTable(id: CodeTableId = DEFAULT_CODE_TABLE_ID): CodeTable {
+    return isCodeTableId(id) ? CODE_TABLES[id] : CODE_TABLES[DEFAULT_CODE_TABLE_ID];
+}
+
+export function listCodeTables(): CodeTable[] {
+    return Object.values(CODE_TABLES);
+}
+
+// Lookup maps are derived lazily and cached per table. They have no prototype,
+// so a pasted group such as 'constructor' looks up nothing instead of Object's.
+const codeMapCache = new Map<CodeTableId, { [symbol: string]: string }>();
+const symbolMapCache = new Map<CodeTableId, { [code: string]: string }>();
+
+// symbol -> code, e.g. 'A' -> '.-', '<SK>' -> '...-.-'
+export function getCodeMap(table: CodeTable = getCodeTable()): { [symbol: string]: string } {
+    let map = codeMapCache.get(table.id);
+    if (!map) {
+        map = Object.create(null) as { [key: string]: string };
+        for (const { symbol, code } of table.symbols) map[symbol] = code;
+        codeMapCache.set(table.id, map);
+    }
+    return map;
+}
+
+// code -> canonical symbol; the first symbol declared for a code wins
+export function getSymbolMap(table: CodeTable = getCodeTable()): { [code: string]: string } {
+    let map = symbolMapCache.get(table.id);
+    if (!map) {
+        map = Object.create(null) as { [key: string]: string };
+        for (const { symbol, code } of table.symbols) {
+            if (!(code in map)) map[code] = symbol;
+        }
+        symbolMapCache.set(table.id, map);
+    }
+    return map;
+}
+
+export function getSymbols(table: CodeTable = getCodeTable(), category?: SymbolCategory): MorseSymbol[] {
+    return category ? table.symbols.filter(s => s.category === category) : table.symbols;
+}
+
+export function isProsign(symbol: string): boolean {
+    return symbol.length > 2 && symbol.startsWith('<') && symbol.endsWith('>');
+}
+
+// Every element character a table may use, keyed or silent
+export function getElementAlphabet(table: CodeTable = getCodeTable()): string[] {
+    return [...Object.keys(table.elementUnits), ...Object.keys(table.gaps)];
+}
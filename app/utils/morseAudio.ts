@@ -0,0 +1,271 @@
+import { buildTimeline, raisedCosine, textToTimeline, type MorseTimeline, type TimingOptions } from './morseTiming';
+
+// Web Audio sidetone playback. Browser only: every entry point creates the
+// AudioContext lazily, so importing this module during SSR is safe.
+
+export interface AudioOptions extends TimingOptions {
+    frequency: number; // Tone pitch in Hz
+    volume: number; // 0..1
+    riseTime: number; // Raised-cosine rise/fall in ms
+}
+
+export const DEFAULT_AUDIO_OPTIONS: AudioOptions = {
+    wpm: 20,
+    farnsworthWpm: 10,
+    frequency: 600,
+    volume: 0.5,
+    riseTime: 5,
+};
+
+export interface PlaybackProgress {
+    elapsed: number; // ms
+    duration: number;
+    letterIndex: number; // Letter currently sounding or last sounded, -1 before the first one
+}
+
+export interface PlaybackCallbacks {
+    onProgress?: (progress: PlaybackProgress) => void;
+    onEnd?: () => void;
+}
+
+export type PlaybackState = 'idle' | 'playing' | 'paused';
+
+export interface MorsePlayer {
+    playMorse: (morse: string, callbacks?: PlaybackCallbacks) => Promise<void>;
+    playText: (text: string, callbacks?: PlaybackCallbacks) => Promise<void>;
+    pause: () => Promise<void>;
+    resume: () => Promise<void>;
+    stop: () => void;
+    getState: () => PlaybackState;
+    setOptions: (options: Partial<AudioOptions>) => void;
+}
+
+let sharedContext: AudioContext | null = null;
+
+// One context for the whole app, browsers limit how many can be open
+export function getAudioContext(): AudioContext | null {
+    if (typeof window === 'undefined') return null;
+    if (!sharedContext) {
+        const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+        if (!Ctor) return null;
+        sharedContext = new Ctor();
+    }
+    return sharedContext;
+}
+
+// Samples of the raised-cosine edge, used with setValueCurveAtTime
+function envelopeCurve(level: number, rising: boolean, points = 32): Float32Array {
+    const curve = new Float32Array(points);
+    for (let i = 0; i < points; i++) {
+        const phase = i / (points - 1);
+        curve[i] = level * raisedCosine(rising ? phase : 1 - phase);
+    }
+    return curve;
+}
+
+export function createMorsePlayer(initialOptions: Partial<AudioOptions> = {}): MorsePlayer {
+    let options: AudioOptions = { ...DEFAULT_AUDIO_OPTIONS, ...initialOptions };
+    let state: PlaybackState = 'idle';
+    let oscillator: OscillatorNode | null = null;
+    let gain: GainNode | null = null;
+    let progressFrame: number | null = null;
+    let finish: (() => void) | null = null;
+
+    const teardown = () => {
+        if (progressFrame !== null) cancelAnimationFrame(progressFrame);
+        progressFrame = null;
+        oscillator?.stop();
+        oscillator?.disconnect();
+        gain?.disconnect();
+        oscillator = null;
+        gain = null;
+        state = 'idle';
+    };
+
+    const play = async (timeline: MorseTimeline, callbacks: PlaybackCallbacks = {}) => {
+        stop();
+        const ctx = getAudioContext();
+        if (!ctx || timeline.segments.length === 0) {
+            callbacks.onEnd?.();
+            return;
+        }
+        if (ctx.state === 'suspended') await ctx.resume();
+
+        const osc = ctx.createOscillator();
+        const amp = ctx.createGain();
+        osc.type = 'sine';
+        osc.frequency.value = options.frequency;
+        amp.gain.value = 0;
+        osc.connect(amp).connect(ctx.destination);
+
+        // Small lead-in so the first edge is never scheduled in the past
+        const startAt = ctx.currentTime + 0.05;
+        for (const segment of timeline.segments) {
+            const start = startAt + segment.start / 1000;
+            const duration = segment.duration / 1000;
+            const edge = Math.min(options.riseTime / 1000, duration / 2);
+            amp.gain.setValueCurveAtTime(envelopeCurve(options.volume, true), start, edge);
+            amp.gain.setValueCurveAtTime(envelopeCurve(options.volume, false), start + duration - edge, edge);
+        }
+        const endAt = startAt + timeline.duration / 1000;
+        osc.start(startAt);
+        osc.stop(endAt + 0.05);
+
+        oscillator = osc;
+        gain = amp;
+        state = 'playing';
+
+        return new Promise<void>(resolve => {
+            finish = () => {
+                finish = null;
+                resolve();
+            };
+
+            const tick = () => {
+                if (oscillator !== osc) return; // Stopped or replaced
+                const elapsed = Math.max(0, (ctx.currentTime - startAt) * 1000);
+                let letterIndex = -1;
+                for (const letter of timeline.letters) {
+                    if (letter.start <= elapsed) letterIndex++;
+                    else break;
+                }
+                callbacks.onProgress?.({ elapsed: Math.min(elapsed, timeline.duration), duration: timeline.duration, letterIndex });
+                if (elapsed >= timeline.duration) {
+                    teardown();
+                    callbacks.onEnd?.();
+                    finish?.();
+                    return;
+                }
+                progressFrame = requestAnimationFrame(tick);
+            };
+            progressFrame = requestAnimationFrame(tick);
+        });
+    };
+
+    const stop = () => {
+        if (state === 'idle') return;
+        teardown();
+        finish?.();
+    };
+
+    return {
+        playMorse: (morse, callbacks) => play(buildTimeline(morse, options), callbacks),
+        playText: (text, callbacks) => play(textToTimeline(text, options), callbacks),
+        async pause() {
+            const ctx = getAudioContext();
+            if (!ctx || state !== 'playing') return;
+            await ctx.suspend(); // Freezes currentTime, so the schedule resumes where it left off
+            state = 'paused';
+        },
+        async resume() {
+            const ctx = getAudioContext();
+            if (!ctx || state !== 'paused') return;
+            await ctx.resume();
+            state = 'playing';
+        },
+        stop,
+        getState: () => state,
+        setOptions(next) {
+            options = { ...options, ...next };
+        },
+    };
+}
+
+export interface Sidetone {
+    keyDown: () => void;
+    keyUp: () => void;
+    setOptions: (options: Partial<Pick<AudioOptions, 'frequency' | 'volume' | 'riseTime'>>) => void;
+    dispose: () => void;
+}
+
+// Live tone for manual keying: the oscillator runs continuously and the gain
+// is shaped with the same raised-cosine edges as playback
+export function createSidetone(initialOptions: Partial<AudioOptions> = {}): Sidetone {
+    let options: AudioOptions = { ...DEFAULT_AUDIO_OPTIONS, ...initialOptions };
+    let oscillator: OscillatorNode | null = null;
+    let gain: GainNode | null = null;
+
+    const ensureNodes = () => {
+        const ctx = getAudioContext();
+        if (!ctx) return null;
+        if (ctx.state === 'suspended') void ctx.resume();
+        if (!oscillator || !gain) {
+            oscillator = ctx.createOscillator();
+            gain = ctx.createGain();
+            oscillator.type = 'sine';
+            oscillator.frequency.value = options.frequency;
+            gain.gain.value = 0;
+            oscillator.connect(gain).connect(ctx.destination);
+            oscillator.start();
+        }
+        return { ctx, gain };
+    };
+
+    const ramp = (rising: boolean) => {
+        const nodes = ensureNodes();
+        if (!nodes) return;
+        const now = nodes.ctx.currentTime;
+        const param = nodes.gain.gain;
+        const level = param.value;
+        // Hold whatever edge is in progress so a quick tap does not overlap two curves
+        if (typeof param.cancelAndHoldAtTime === 'function') param.cancelAndHoldAtTime(now);
+        else param.cancelScheduledValues(now);
+        const edge = Math.max(options.riseTime, 1) / 1000;
+        if (rising) param.setValueCurveAtTime(envelopeCurve(options.volume, true), now + 0.001, edge);
+        else param.setValueCurveAtTime(envelopeCurve(level, false), now + 0.001, edge);
+    };
+
+    return {
+        keyDown: () => ramp(true),
+        keyUp: () => ramp(false),
+        setOptions(next) {
+            options = { ...options, ...next };
+            if (oscillator) oscillator.frequency.value = options.frequency;
+        },
+        dispose() {
+            oscillator?.stop();
+            oscillator?.disconnect();
+            gain?.disconnect();
+            oscillator = null;
+            gain = null;
+        },
+    };
+}
+
+export interface MicrophoneCapture {
+    sampleRate: number;
+    stop: () => void;
+}
+
+// Streams raw microphone samples to `onSamples` until stopped. Browser processing
+// (noise suppression, auto gain) is turned off because it mangles keyed tones.
+// A ScriptProcessorNode is deprecated, but unlike an AudioWorklet it needs no separate module.
+export async function captureMicrophone(onSamples: (samples: Float32Array) => void): Promise<MicrophoneCapture> {
+    const ctx = getAudioContext();
+    if (!ctx || !navigator.mediaDevices?.getUserMedia) {
+        throw new Error('Microphone input is not available in this browser.');
+    }
+    const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const source = ctx.createMediaStreamSource(stream);
+    const processor = ctx.createScriptProcessor(4096, 1, 1);
+    const mute = ctx.createGain();
+    mute.gain.value = 0; // The processor only runs while connected to the output
+    processor.onaudioprocess = event => onSamples(new Float32Array(event.inputBuffer.getChannelData(0)));
+    source.connect(processor);
+    processor.connect(mute).connect(ctx.destination);
+
+    return {
+        sampleRate: ctx.sampleRate,
+        stop() {
+            processor.onaudioprocess = null;
+            source.disconnect();
+            processor.disconnect();
+            mute.disconnect();
+            stream.getTracks().forEach(track => track.stop());
+        },
+    };
+}
@@ -1,43 +1,213 @@
-// Morse code mapping (consistent with previous components)
-const morseCodeMap: { [key: string]: string } = {
-    'A': '.-', 'B': '-...', 'C': '-.-.', 'D': '-..', 'E': '.', 'F': '..-.',
-    'G': '--.', 'H': '....', 'I': '..', 'J': '.---', 'K': '-.-', 'L': '.-..',
-    'M': '--', 'N': '-.', 'O': '---', 'P': '.--.', 'Q': '--.-', 'R': '.-.',
-    'S': '...', 'T': '-', 'U': '..-', 'V': '...-', 'W': '.--', 'X': '-..-',
-    'Y': '-.--', 'Z': '--..',
-    '1': '.----', '2': '..---', '3': '...--', '4': '....-', '5': '.....',
-    '6': '-....', '7': '--...', '8': '---..', '9': '----.', '0': '-----',
-    '.': '.-.-.-', ',': '--..--', '?': '..--..', "'": '.----.', '!': '-.-.--',
-    '/': '-..-.', '(': '-.--.', ')': '-.--.-', '&': '.-...', ':': '---...',
-    ';': '-.-.-.', '=': '-...-', '+': '.-.-.', '-': '-....-', '_': '..--.-',
-    '"': '.-..-.', '$': '...-..-', '@': '.--.-.',
-    // Define space representation if needed, but typically handled by letter spacing
+import {
+    getCodeMap,
+    getCodeTable,
+    getSymbolMap,
+    isProsign,
+    DAH,
+    DIT,
+    LETTER_SEPARATOR,
+    WORD_SEPARATOR,
+    type CodeTable,
+} from './morseAlphabet';
+
+// --- Sentence codec ---
+// encodeText/decodeMorse work on whole multi-word strings and report everything
+// they could not translate instead of silently dropping it.
+// Guarantee: decodeMorse(encodeText(t).morse).text === normalizeText(t)
+
+export interface CodecOptions {
+    table?: CodeTable;
+    unknownSymbol?: string; // Placeholder for code groups that decode to nothing, '?' by default
+}
+
+export interface EncodedToken {
+    symbol: string; // Canonical symbol that was encoded, e.g. 'A' or '<SK>'
+    code: string;
+    start: number; // Offsets into the source text (end exclusive)
+    end: number;
+    wordIndex: number;
+}
+
+export interface DecodedToken {
+    code: string;
+    symbol: string | null; // null when the group is not in the table
+    start: number; // Offsets into the source Morse string (end exclusive)
+    end: number;
+    wordIndex: number;
+}
+
+export interface UnmappableChar {
+    char: string;
+    start: number;
+    end: number;
+}
+
+export interface InvalidCodeGroup {
+    code: string;
+    start: number;
+    end: number;
+}
+
+export interface EncodeResult {
+    morse: string; // Letters separated by ' ', words by ' / '
+    normalizedText: string;
+    tokens: EncodedToken[];
+    unmappable: UnmappableChar[];
+}
+
+export interface DecodeResult {
+    text: string; // Words separated by a single space
+    tokens: DecodedToken[];
+    invalid: InvalidCodeGroup[];
+}
+
+const WORD_GAP = `${LETTER_SEPARATOR}${WORD_SEPARATOR}${LETTER_SEPARATOR}`;
+
+// Alternative glyphs people paste in for dits and dahs
+const ELEMENT_ALIASES: { [glyph: string]: string } = {
+    '·': DIT, '•': DIT, '∙': DIT,
+    '–': DAH, '—': DAH, '−': DAH,
 };
 
+// Splits source text into symbols with offsets; prosigns like <SK> count as one symbol
+function scanText(text: string, codeMap: { [symbol: string]: string }) {
+    const items: { char: string; start: number; end: number; isSpace: boolean }[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            items.push({ char, start: i, end: i + 1, isSpace: true });
+            i++;
+            continue;
+        }
+        if (char === '<') {
+            const close = text.indexOf('>', i);
+            if (close > i) {
+                const candidate = text.slice(i, close + 1).toUpperCase();
+                if (isProsign(candidate) && candidate in codeMap) {
+                    items.push({ char: candidate, start: i, end: close + 1, isSpace: false });
+                    i = close + 1;
+                    continue;
+                }
+            }
+        }
+        // Keep surrogate pairs together so offsets stay meaningful
+        const codePoint = String.fromCodePoint(text.codePointAt(i) ?? 0);
+        items.push({ char: codePoint.toUpperCase(), start: i, end: i + codePoint.length, isSpace: false });
+        i += codePoint.length;
+    }
+    return items;
+}
+
+export function encodeText(text: string, options: CodecOptions = {}): EncodeResult {
+    const table = options.table ?? getCodeTable();
+    const codeMap = getCodeMap(table);
+    const symbolMap = getSymbolMap(table);
+
+    const tokens: EncodedToken[] = [];
+    const unmappable: UnmappableChar[] = [];
+    const words: EncodedToken[][] = [];
+    let current: EncodedToken[] = [];
+
+    const closeWord = () => {
+        if (current.length > 0) words.push(current);
+        current = [];
+    };
+
+    for (const item of scanText(text, codeMap)) {
+        if (item.isSpace) {
+            closeWord();
+            continue;
+        }
+        const code = codeMap[item.char];
+        if (!code) {
+            unmappable.push({ char: text.slice(item.start, item.end), start: item.start, end: item.end });
+            continue;
+        }
+        const token: EncodedToken = {
+            symbol: symbolMap[code], // Canonical form so decoding gives the same symbol back
+            code,
+            start: item.start,
+            end: item.end,
+            wordIndex: words.length,
+        };
+        current.push(token);
+        tokens.push(token);
+    }
+    closeWord();
+
+    return {
+        morse: words.map(word => word.map(t => t.code).join(LETTER_SEPARATOR)).join(WORD_GAP),
+        normalizedText: words.map(word => word.map(t => t.symbol).join('')).join(' '),
+        tokens,
+        unmappable,
+    };
+}
+
+export function decodeMorse(morse: string, options: CodecOptions = {}): DecodeResult {
+    const table = options.table ?? getCodeTable();
+    const unknownSymbol = options.unknownSymbol ?? '?';
+    const symbolMap = getSymbolMap(table);
+
+    const tokens: DecodedToken[] = [];
+    const invalid: InvalidCodeGroup[] = [];
+    const words: string[][] = [];
+    let current: string[] = [];
+
+    const isWordBreak = (gap: string) =>
+        gap.includes(WORD_SEPARATOR) || gap.includes('|') || gap.includes('\n') || gap.length >= 2;
+
+    const closeWord = () => {
+        if (current.length > 0) words.push(current);
+        current = [];
+    };
+
+    // Code groups are runs of anything that is not whitespace or a word separator
+    const groupPattern = /[^\s/|]+/g;
+    let lastEnd = 0;
+    let match: RegExpExecArray | null;
+    while ((match = groupPattern.exec(morse)) !== null) {
+        const separator = morse.slice(lastEnd, match.index); // Text since the previous group
+        if (current.length > 0 && isWordBreak(separator)) closeWord();
+
+        const raw = match[0];
+        const code = Array.from(raw).map(glyph => ELEMENT_ALIASES[glyph] ?? glyph).join('');
+        const symbol = symbolMap[code] ?? null;
+        const start = match.index;
+        const end = start + raw.length;
+
+        tokens.push({ code, symbol, start, end, wordIndex: words.length });
+        if (symbol === null) invalid.push({ code: raw, start, end });
+        current.push(symbol ?? unknownSymbol);
+        lastEnd = end;
+    }
+    closeWord();
+
+    return {
+        text: words.map(word => word.join('')).join(' '),
+        tokens,
+        invalid,
+    };
+}
+
+// The text form encodeText can reproduce: upper case, single spaces,
+// unmappable characters removed and shared codes folded to one symbol
+export function normalizeText(text: string, table: CodeTable = getCodeTable()): string {
+    return encodeText(text, { table }).normalizedText;
+}
+
+// --- Single-word helpers ---
+
 // Function to convert a word to Morse code
 // Adds a single space between letters' Morse representations
-export function wordToMorse(word: string): string {
+export function wordToMorse(word: string, table: CodeTable = getCodeTable()): string {
     if (!word) return '';
-    return word
-        .toUpperCase() // Ensure consistency
-        .split('') // Split into individual characters
-        .map(char => morseCodeMap[char] || '') // Get Morse for each char, empty string if not found
-        .filter(code => code !== '') // Filter out any characters not in the map
-        .join(' '); // Join Morse codes with a single space
-}
-
-// Optional: Function to convert Morse back to text (if needed later)
-export function morseToWord(morse: string): string {
-    const reverseMorseCodeMap: { [key: string]: string } = Object.entries(
-        morseCodeMap
-    ).reduce((acc, [key, value]) => {
-        acc[value] = key;
-        return acc;
-    }, {} as { [key: string]: string });
-
-    return morse
-        .trim()
-        .split(' ') // Split by space between letters
-        .map(code => reverseMorseCodeMap[code] || '?') // Translate each code, '?' for unknown
-        .join('');
+    return encodeText(word, { table }).tokens
+        .map(token => token.code) // Characters not in the table are skipped
+        .join(LETTER_SEPARATOR); // Join Morse codes with a single space
+}
+
+// Convert Morse back to text, '?' for unknown codes
+export function morseToWord(morse: string, table: CodeTable = getCodeTable()): string {
+    return decodeMorse(morse, { table }).text;
 }
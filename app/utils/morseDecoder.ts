@@ -0,0 +1,358 @@
+import { getCodeTable, LETTER_SEPARATOR, WORD_SEPARATOR, type CodeTable } from './morseAlphabet';
+import { morseToWord } from './morseConverter';
+import { ditLengthMs } from './morseTiming';
+
+// Audio to text: tone detection (Goertzel), an envelope with an adaptive
+// threshold, speed estimation from the key-down lengths, and dit/dah/gap
+// classification. Works on plain PCM samples, so recordings, the microphone
+// and the WAVs from /audio.wav all take the same path; nothing here touches the DOM.
+
+export interface AudioDecoderOptions {
+    sampleRate: number;
+    frequency: number | null; // Tone to listen for, null to detect it from the audio
+    minFrequency: number; // Search range for detection
+    maxFrequency: number;
+    windowMs: number; // Goertzel window; its bandwidth is roughly 1000 / windowMs Hz
+    hopMs: number; // Envelope resolution
+    table: CodeTable;
+}
+
+export const DEFAULT_DECODER_OPTIONS: Omit<AudioDecoderOptions, 'sampleRate' | 'table'> = {
+    frequency: null,
+    minFrequency: 300,
+    maxFrequency: 1200,
+    windowMs: 10,
+    hopMs: 5,
+};
+
+export interface KeyRun {
+    on: boolean;
+    duration: number; // ms
+    level: number; // Peak tone magnitude during the run
+}
+
+export interface DecodedAudio {
+    frequency: number | null; // null until a tone has been found
+    unitMs: number | null; // Estimated dit length
+    wpm: number | null;
+    morse: string;
+    text: string;
+    keyDown: boolean; // Tone present at the end of the audio so far
+}
+
+export interface AudioDecoder {
+    push: (samples: ArrayLike<number>) => void;
+    flush: () => void; // Detects the tone from whatever has been pushed, for short inputs
+    getResult: () => DecodedAudio;
+}
+
+const DETECT_BLOCK_MS = 20; // 50 Hz bins for the frequency search
+const DETECT_STEP_HZ = 10;
+const DETECT_MAX_BLOCKS = 200; // Bounds the search cost on long recordings
+const MIN_TONE_RATIO = 4; // Peak power over the median across the band before a tone counts
+const LOCK_AFTER_MS = 500; // Audio needed before trying to detect the tone while streaming
+const LOCK_BUFFER_MS = 5000; // Unlocked audio kept while waiting for a tone
+const MIN_SNR = 5; // Peak over floor magnitude before anything is keyed
+const ON_LEVEL = 0.6; // Hysteresis, as fractions between floor and peak
+const OFF_LEVEL = 0.4;
+const FAINT_LEVEL = 0.3; // Tones below this share of the median tone level are noise
+const FALLBACK_WPM = 20; // Only used to read a lone element
+const FARNSWORTH_SPLIT = 1.8; // Word gaps are 7/3 of letter gaps; below this ratio there is one kind only
+
+// Power of one frequency over samples[start, start + length), normalized so a
+// full-scale sine gives about 0.25 whatever the window length
+export function goertzelPower(samples: ArrayLike<number>, start: number, length: number, frequency: number, sampleRate: number): number {
+    const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+    let previous = 0;
+    let beforePrevious = 0;
+    for (let i = start; i < start + length; i++) {
+        const current = samples[i] + coefficient * previous - beforePrevious;
+        beforePrevious = previous;
+        previous = current;
+    }
+    const power = previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+    return power / (length * length);
+}
+
+// Strongest steady tone in the band, searched over the loudest blocks only; null for noise or silence
+export function detectToneFrequency(
+    samples: ArrayLike<number>,
+    sampleRate: number,
+    { minFrequency, maxFrequency }: Pick<AudioDecoderOptions, 'minFrequency' | 'maxFrequency'> = DEFAULT_DECODER_OPTIONS,
+): number | null {
+    const blockLength = Math.round((DETECT_BLOCK_MS * sampleRate) / 1000);
+    const blocks: { start: number; energy: number }[] = [];
+    for (let start = 0; start + blockLength <= samples.length; start += blockLength) {
+        let energy = 0;
+        for (let i = start; i < start + blockLength; i++) energy += samples[i] * samples[i];
+        blocks.push({ start, energy });
+    }
+    if (blocks.length === 0) return null;
+
+    const loud = [...blocks].sort((a, b) => b.energy - a.energy).slice(0, Math.max(1, Math.ceil(blocks.length / 4)));
+    const stride = Math.max(1, Math.floor(loud.length / DETECT_MAX_BLOCKS));
+    const chosen = loud.filter((_, index) => index % stride === 0).slice(0, DETECT_MAX_BLOCKS);
+
+    const powers: { frequency: number; power: number }[] = [];
+    for (let frequency = minFrequency; frequency <= maxFrequency; frequency += DETECT_STEP_HZ) {
+        const power = chosen.reduce((sum, block) => sum + goertzelPower(samples, block.start, blockLength, frequency, sampleRate), 0);
+        powers.push({ frequency, power });
+    }
+    const best = powers.reduce((a, b) => (b.power > a.power ? b : a));
+    const sorted = powers.map(p => p.power).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    return best.power > 0 && best.power >= median * MIN_TONE_RATIO ? best.frequency : null;
+}
+
+export interface EnvelopeState {
+    floor: number; // Noise magnitude, tracked while the key is up
+    peak: number; // Tone magnitude, tracked while the key is down
+    on: boolean;
+}
+
+export const INITIAL_ENVELOPE: EnvelopeState = { floor: Infinity, peak: 0, on: false };
+
+// One envelope step with an adaptive, hysteretic threshold between the noise
+// floor and the tone peak, so fading signals and changing noise keep decoding
+export function stepEnvelope(state: EnvelopeState, magnitude: number): EnvelopeState {
+    let { floor, peak } = state;
+    if (floor === Infinity) floor = magnitude;
+    if (state.on) {
+        peak = magnitude > peak ? magnitude : peak + (magnitude - peak) * 0.02;
+    } else {
+        floor = magnitude < floor ? floor + (magnitude - floor) * 0.5 : floor + (magnitude - floor) * 0.05;
+        peak = Math.max(peak * 0.999, magnitude);
+    }
+
+    const range = peak - floor;
+    if (peak < floor * MIN_SNR || range <= 0) return { floor, peak, on: false };
+    const on = state.on ? magnitude > floor + range * OFF_LEVEL : magnitude > floor + range * ON_LEVEL;
+    return { floor, peak, on };
+}
+
+// Best two-way split of 1-D values (exact 2-means), low side first
+function splitInTwo(values: number[]): { low: number[]; high: number[] } {
+    const sorted = [...values].sort((a, b) => a - b);
+    let best = { cost: Infinity, index: sorted.length };
+    const prefix = [0];
+    const prefixSquares = [0];
+    for (const value of sorted) {
+        prefix.push(prefix[prefix.length - 1] + value);
+        prefixSquares.push(prefixSquares[prefixSquares.length - 1] + value * value);
+    }
+    const spread = (from: number, to: number) => {
+        const count = to - from;
+        if (count === 0) return 0;
+        const sum = prefix[to] - prefix[from];
+        return prefixSquares[to] - prefixSquares[from] - (sum * sum) / count;
+    };
+    for (let index = 1; index < sorted.length; index++) {
+        const cost = spread(0, index) + spread(index, sorted.length);
+        if (cost < best.cost) best = { cost, index };
+    }
+    return { low: sorted.slice(0, best.index), high: sorted.slice(best.index) };
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Gap lengths between the first and last key-down; silence before and after says nothing about speed
+const innerGaps = (runs: KeyRun[]): number[] => {
+    const first = runs.findIndex(run => run.on);
+    const last = runs.map(run => run.on).lastIndexOf(true);
+    return runs.slice(first + 1, last).filter(run => !run.on).map(run => run.duration);
+};
+
+// Dit length from the key-down lengths. With both dits and dahs present the two
+// clusters give it directly; with one kind only, the gaps inside letters (1 unit)
+// tell whether those were dits or dahs. The envelope shortens tones and lengthens
+// gaps by about the same amount, so element gaps are averaged in to cancel that out.
+export function estimateUnitMs(runs: KeyRun[]): number | null {
+    const ons = runs.filter(run => run.on).map(run => run.duration);
+    if (ons.length === 0) return null;
+    const gaps = innerGaps(runs);
+
+    let fromTones: number;
+    const { low, high } = splitInTwo(ons);
+    if (high.length > 0 && low.length > 0 && mean(high) / mean(low) >= 2) {
+        fromTones = (low.reduce((sum, d) => sum + d, 0) + high.reduce((sum, d) => sum + d, 0) / 3) / ons.length;
+    } else {
+        const onMean = mean(ons);
+        const shortGaps = gaps.length > 1 ? splitInTwo(gaps).low : gaps;
+        if (shortGaps.length > 0) fromTones = onMean / mean(shortGaps) >= 2 ? onMean / 3 : onMean;
+        else fromTones = onMean < 2 * ditLengthMs(FALLBACK_WPM) ? onMean : onMean / 3;
+    }
+
+    const elementGaps = gaps.filter(gap => gap < 2 * fromTones);
+    return elementGaps.length > 0 ? (fromTones + mean(elementGaps)) / 2 : fromTones;
+}
+
+// Key runs to Morse in the shared notation (letters split by a space, words by " / ")
+export function runsToMorse(runs: KeyRun[], unitMs: number): string {
+    const firstOn = runs.findIndex(run => run.on);
+    if (firstOn < 0) return '';
+    const body = runs.slice(firstOn);
+
+    // Gaps longer than an element gap are letter or word gaps. They are split by
+    // clustering, so Farnsworth-stretched letter gaps are not read as word gaps;
+    // with no clear split (a single word, or one gap only) all are letter gaps.
+    const longGaps = innerGaps(body).filter(duration => duration >= 2 * unitMs);
+    let wordGapMs = Infinity;
+    if (longGaps.length > 1) {
+        const { low, high } = splitInTwo(longGaps);
+        if (low.length > 0 && high.length > 0 && mean(high) / mean(low) >= FARNSWORTH_SPLIT) {
+            wordGapMs = (low[low.length - 1] + high[0]) / 2;
+        }
+    }
+
+    const words: string[][] = [[]];
+    let letter = '';
+    const closeLetter = () => {
+        if (letter) words[words.length - 1].push(letter);
+        letter = '';
+    };
+    for (const run of body) {
+        if (run.on) {
+            letter += run.duration < 2 * unitMs ? '.' : '-';
+        } else if (run.duration >= 2 * unitMs) {
+            closeLetter();
+            if (run.duration >= wordGapMs && words[words.length - 1].length > 0) words.push([]);
+        }
+    }
+    closeLetter();
+    return words
+        .filter(word => word.length > 0)
+        .map(word => word.join(LETTER_SEPARATOR))
+        .join(`${LETTER_SEPARATOR}${WORD_SEPARATOR}${LETTER_SEPARATOR}`);
+}
+
+// Noise can key the envelope before the first real tone has set its peak; such
+// tones are far weaker than the rest and are turned back into silence
+function dropFaintTones(runs: KeyRun[]): KeyRun[] {
+    const levels = runs.filter(run => run.on).map(run => run.level).sort((a, b) => a - b);
+    if (levels.length === 0) return runs;
+    const minLevel = levels[Math.floor(levels.length / 2)] * FAINT_LEVEL;
+    const out: KeyRun[] = [];
+    for (const run of runs) {
+        const next = run.on && run.level < minLevel ? { ...run, on: false } : run;
+        const previous = out[out.length - 1];
+        if (previous && previous.on === next.on) {
+            out[out.length - 1] = { on: next.on, duration: previous.duration + next.duration, level: Math.max(previous.level, next.level) };
+        } else {
+            out.push(next);
+        }
+    }
+    return out;
+}
+
+const concat = (chunks: ArrayLike<number>[]): Float32Array => {
+    const out = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return out;
+};
+
+// Streaming decoder: push samples as they arrive (microphone) or all at once (files).
+// Until the tone is known, audio is buffered and searched every LOCK_AFTER_MS.
+export function createAudioDecoder(options: Partial<AudioDecoderOptions> & { sampleRate: number }): AudioDecoder {
+    const { sampleRate, minFrequency, maxFrequency, windowMs, hopMs, table } = {
+        ...DEFAULT_DECODER_OPTIONS,
+        table: getCodeTable(),
+        ...options,
+    };
+    const windowLength = Math.max(1, Math.round((windowMs * sampleRate) / 1000));
+    const hopLength = Math.max(1, Math.round((hopMs * sampleRate) / 1000));
+    const stepMs = (hopLength * 1000) / sampleRate;
+    const glitchMs = stepMs * 3; // Runs this short are noise, folded into the run before
+
+    let frequency = options.frequency ?? null;
+    let pending: ArrayLike<number>[] = []; // Before the tone is known
+    let pendingLength = 0;
+    let nextLockAttempt = (LOCK_AFTER_MS * sampleRate) / 1000;
+    let tail = new Float32Array(0); // Samples not yet covered by a full window
+    let envelope = INITIAL_ENVELOPE;
+    const runs: KeyRun[] = [];
+    let current: KeyRun = { on: false, duration: 0, level: 0 };
+
+    const advance = (on: boolean, magnitude: number) => {
+        if (on !== current.on) {
+            const previous = runs[runs.length - 1];
+            if (current.duration < glitchMs && previous) {
+                runs.pop();
+                current = { on, duration: previous.duration + current.duration, level: Math.max(previous.level, current.level) };
+            } else if (current.duration < glitchMs) {
+                current = { ...current, on };
+            } else {
+                runs.push(current);
+                current = { on, duration: 0, level: 0 };
+            }
+        }
+        current.duration += stepMs;
+        current.level = Math.max(current.level, magnitude);
+    };
+
+    const process = (samples: ArrayLike<number>) => {
+        const data = concat([tail, samples]);
+        let position = 0;
+        for (; position + windowLength <= data.length; position += hopLength) {
+            const magnitude = Math.sqrt(goertzelPower(data, position, windowLength, frequency as number, sampleRate));
+            envelope = stepEnvelope(envelope, magnitude);
+            advance(envelope.on, magnitude);
+        }
+        tail = data.slice(position);
+    };
+
+    const tryLock = () => {
+        const buffered = concat(pending);
+        frequency = detectToneFrequency(buffered, sampleRate, { minFrequency, maxFrequency });
+        if (frequency !== null) {
+            pending = [];
+            pendingLength = 0;
+            process(buffered);
+            return;
+        }
+        // Keep only recent audio while waiting for a tone
+        const keep = Math.round((LOCK_BUFFER_MS * sampleRate) / 1000);
+        pending = [buffered.slice(Math.max(0, buffered.length - keep))];
+        pendingLength = pending[0].length;
+        nextLockAttempt = pendingLength + (LOCK_AFTER_MS * sampleRate) / 1000;
+    };
+
+    return {
+        push(samples) {
+            if (frequency !== null) {
+                process(samples);
+                return;
+            }
+            pending.push(samples);
+            pendingLength += samples.length;
+            if (pendingLength >= nextLockAttempt) tryLock();
+        },
+        flush() {
+            if (frequency === null && pendingLength > 0) tryLock();
+        },
+        getResult() {
+            const all = dropFaintTones(current.duration > 0 ? [...runs, current] : runs);
+            const unitMs = estimateUnitMs(all);
+            const morse = unitMs === null ? '' : runsToMorse(all, unitMs);
+            return {
+                frequency,
+                unitMs,
+                wpm: unitMs === null ? null : 1200 / unitMs,
+                morse,
+                text: morse ? morseToWord(morse, table) : '',
+                keyDown: envelope.on,
+            };
+        },
+    };
+}
+
+// Whole recording at once, e.g. a decoded WAV file
+export function decodeSamples(samples: ArrayLike<number>, options: Partial<AudioDecoderOptions> & { sampleRate: number }): DecodedAudio {
+    const decoder = createAudioDecoder(options);
+    decoder.push(samples);
+    decoder.flush();
+    return decoder.getResult();
+}
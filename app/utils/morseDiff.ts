@@ -0,0 +1,182 @@
+import { DAH, DIT, EXTRA_LONG_DAH, LETTER_SEPARATOR, LONG_DAH, SPACED_GAP, WORD_SEPARATOR } from './morseAlphabet';
+import { alignSequences, type AlignedPair } from './sequenceAlignment';
+
+// Letter-by-letter comparison of a learner's Morse with the expected Morse.
+// Both strings are split into single elements plus gap tokens between letters
+// and words, aligned by edit distance, and every difference is labelled with
+// the mistake that most likely caused it:
+//   dropped element   ".-" keyed as "."
+//   extra element     ".-" keyed as ".--"
+//   swapped element   ".-" keyed as "--" (dit and dah confused)
+//   merged letters    ".- -..." keyed as ".--..." (no gap between A and B)
+//   split letter      "---" keyed as "- --" (a gap inside O)
+//   wrong gap         letter gap keyed as a word gap, or the reverse
+
+export type MorseToken = string; // One element, LETTER_SEPARATOR or WORD_SEPARATOR
+
+export type MorseErrorKind =
+    | 'dropped-element'
+    | 'extra-element'
+    | 'swapped-element'
+    | 'merged-letters'
+    | 'split-letter'
+    | 'wrong-gap';
+
+export interface MorseError {
+    kind: MorseErrorKind;
+    letterIndex: number; // Expected letter the mistake belongs to; for gaps, the letter before the gap
+    elementIndex: number | null; // Position inside that letter, null for gap mistakes
+    expected: MorseToken | null;
+    actual: MorseToken | null;
+}
+
+export interface LetterDiff {
+    index: number;
+    label: string | null; // Text symbol for the letter when the caller passed labels
+    expected: string; // Expected code for the letter
+    given: string; // Elements the learner keyed where this letter belongs
+    elements: AlignedPair<MorseToken>[]; // Element pairs only, in order, for highlighting
+    errors: MorseError[];
+    correct: boolean;
+}
+
+export interface MorseDiff {
+    correct: boolean;
+    letters: LetterDiff[];
+    errors: MorseError[];
+    pairs: AlignedPair<MorseToken>[];
+}
+
+const isGap = (token: MorseToken) => token === LETTER_SEPARATOR || token === WORD_SEPARATOR;
+
+// Words on '/', letters on whitespace; extra spaces and empty groups are ignored
+function splitLetters(morse: string): string[][] {
+    return morse
+        .trim()
+        .split(/\s*\/\s*/)
+        .map(word => word.split(/\s+/).filter(Boolean))
+        .filter(word => word.length > 0);
+}
+
+export function tokenizeMorse(morse: string): MorseToken[] {
+    const tokens: MorseToken[] = [];
+    splitLetters(morse).forEach((word, wordIndex) => {
+        if (wordIndex > 0) tokens.push(WORD_SEPARATOR);
+        word.forEach((letter, letterIndex) => {
+            if (letterIndex > 0) tokens.push(LETTER_SEPARATOR);
+            tokens.push(...Array.from(letter));
+        });
+    });
+    return tokens;
+}
+
+// Element <-> gap substitutions cost more than a delete plus an insert, so they
+// never happen: a missing gap is always reported as merged letters
+function substitutionCost(expected: MorseToken, actual: MorseToken): number {
+    return isGap(expected) === isGap(actual) ? 1 : 3;
+}
+
+export function diffMorse(expectedMorse: string, givenMorse: string, labels: string[] = []): MorseDiff {
+    const expectedLetters = splitLetters(expectedMorse).flat();
+    const expectedTokens = tokenizeMorse(expectedMorse);
+    const pairs = alignSequences(expectedTokens, tokenizeMorse(givenMorse), undefined, { substitute: substitutionCost, insert: 1, delete: 1 });
+
+    const letters: LetterDiff[] = expectedLetters.map((code, index) => ({
+        index,
+        label: labels[index] ?? null,
+        expected: code,
+        given: '',
+        elements: [],
+        errors: [],
+        correct: true,
+    }));
+    const errors: MorseError[] = [];
+    const report = (error: MorseError, ...letterIndexes: number[]) => {
+        errors.push(error);
+        for (const index of letterIndexes) letters[index]?.errors.push(error);
+    };
+
+    let letterIndex = 0; // Letter currently being walked through
+    let elementIndex = 0; // Expected elements of that letter seen so far
+    for (const pair of pairs) {
+        const token = pair.expected ?? pair.actual ?? '';
+        const letter = letters[letterIndex] as LetterDiff | undefined;
+
+        if (!isGap(token)) {
+            // Element pair
+            letter?.elements.push(pair);
+            if (letter && pair.actual !== null) letter.given += pair.actual;
+            if (pair.op === 'substitute') {
+                report({ kind: 'swapped-element', letterIndex, elementIndex, expected: pair.expected, actual: pair.actual }, letterIndex);
+            } else if (pair.op === 'delete') {
+                report({ kind: 'dropped-element', letterIndex, elementIndex, expected: pair.expected, actual: null }, letterIndex);
+            } else if (pair.op === 'insert') {
+                report({ kind: 'extra-element', letterIndex, elementIndex, expected: null, actual: pair.actual }, letterIndex);
+            }
+            if (pair.expected !== null) elementIndex++;
+            continue;
+        }
+
+        // Gap pair
+        if (pair.op === 'insert') {
+            report({ kind: 'split-letter', letterIndex, elementIndex: null, expected: null, actual: pair.actual }, letterIndex);
+            continue;
+        }
+        if (pair.op === 'delete') {
+            report({ kind: 'merged-letters', letterIndex, elementIndex: null, expected: pair.expected, actual: null }, letterIndex, letterIndex + 1);
+        } else if (pair.op === 'substitute') {
+            report({ kind: 'wrong-gap', letterIndex, elementIndex: null, expected: pair.expected, actual: pair.actual }, letterIndex, letterIndex + 1);
+        }
+        // Any expected gap moves on to the next letter
+        letterIndex++;
+        elementIndex = 0;
+    }
+
+    for (const letter of letters) letter.correct = letter.errors.length === 0;
+    return { correct: errors.length === 0, letters, errors, pairs };
+}
+
+// --- Wording for feedback ---
+
+const ELEMENT_NAMES: { [element: string]: string } = {
+    [DIT]: 'dit',
+    [DAH]: 'dah',
+    [LONG_DAH]: 'long dah',
+    [EXTRA_LONG_DAH]: 'extra-long dah',
+    [SPACED_GAP]: 'spaced gap',
+};
+
+export function elementName(element: MorseToken | null): string {
+    return element === null ? 'nothing' : ELEMENT_NAMES[element] ?? `"${element}"`;
+}
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'];
+
+function ordinal(index: number): string {
+    return ORDINALS[index] ?? `${index + 1}th`;
+}
+
+// One short sentence per mistake, e.g. "A: dah where a dit belongs (first element)"
+export function describeMorseError(error: MorseError, diff: MorseDiff): string {
+    const letterName = (index: number) => diff.letters[index]?.label ?? `letter ${index + 1}`;
+    const name = letterName(error.letterIndex);
+    const position = error.elementIndex !== null ? ` (${ordinal(error.elementIndex)} element)` : '';
+    switch (error.kind) {
+        case 'swapped-element':
+            return `${name}: ${elementName(error.actual)} where a ${elementName(error.expected)} belongs${position}`;
+        case 'dropped-element':
+            return `${name}: missing a ${elementName(error.expected)}${position}`;
+        case 'extra-element':
+            return error.elementIndex
+                ? `${name}: extra ${elementName(error.actual)} after the ${ordinal(error.elementIndex - 1)} element`
+                : `${name}: extra ${elementName(error.actual)} at the start`;
+        case 'merged-letters':
+            return `${name} and ${letterName(error.letterIndex + 1)} ran together: leave a gap between letters`;
+        case 'split-letter':
+            return `${name} was split in two: no gap inside a letter`;
+        case 'wrong-gap':
+            return error.expected === WORD_SEPARATOR
+                ? `${name} and ${letterName(error.letterIndex + 1)} belong to different words: use a word gap`
+                : `${name} and ${letterName(error.letterIndex + 1)} are in the same word: use a letter gap`;
+    }
+}
@@ -0,0 +1,112 @@
+import type { AudioOptions, MorsePlayer, Sidetone } from './morseAudio';
+import { buildTimeline, type MorseTimeline, type TimingOptions } from './morseTiming';
+import { createSilentPlayer } from './morseVisual';
+
+// Vibration output for phones: Morse played as Vibration API patterns built from
+// the same PARIS timelines as audio and light, plus a haptic sidetone for keying.
+// Pattern building is pure; only the player and sidetone touch navigator.
+
+// Browsers cap the length of a single vibrate() pattern (Chrome allows 99 entries),
+// so longer transmissions are sent in chunks
+export const MAX_PATTERN_ENTRIES = 99;
+
+const HOLD_MS = 10000; // Longest single vibration browsers accept, used while a key is held
+
+export interface PatternChunk {
+    offset: number; // ms after the start of the pattern
+    pattern: number[]; // Starts and ends with a vibration
+}
+
+// Alternating vibrate/pause durations in whole ms, as navigator.vibrate() takes them.
+// `fromElapsed` starts part-way through, e.g. on resume; a leading pause is
+// written as a zero-length vibration.
+export function vibrationPattern(timeline: MorseTimeline, fromElapsed = 0): number[] {
+    const pattern: number[] = [];
+    let cursor = fromElapsed;
+    for (const segment of timeline.segments) {
+        const end = segment.start + segment.duration;
+        if (end <= fromElapsed) continue;
+        const start = Math.max(segment.start, fromElapsed);
+        const pause = Math.round(start - cursor);
+        if (pattern.length === 0) {
+            if (pause > 0) pattern.push(0, pause);
+        } else {
+            pattern.push(pause);
+        }
+        pattern.push(Math.round(end - start));
+        cursor = end;
+    }
+    return pattern;
+}
+
+export function morseToVibrationPattern(morse: string, options: TimingOptions): number[] {
+    return vibrationPattern(buildTimeline(morse, options));
+}
+
+// Splits a pattern into pieces of at most `maxEntries`, each starting and ending
+// with a vibration; the pause between two pieces is implied by their offsets
+export function chunkVibrationPattern(pattern: number[], maxEntries = MAX_PATTERN_ENTRIES): PatternChunk[] {
+    const limit = Math.max(1, maxEntries % 2 === 0 ? maxEntries - 1 : maxEntries); // Odd, so a chunk ends on a vibration
+    const chunks: PatternChunk[] = [];
+    let offset = 0;
+    for (let index = 0; index < pattern.length; index += limit + 1) {
+        const chunk = pattern.slice(index, index + limit);
+        chunks.push({ offset, pattern: chunk });
+        offset += pattern.slice(index, index + limit + 1).reduce((sum, value) => sum + value, 0);
+    }
+    return chunks;
+}
+
+export function canVibrate(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+// Plays Morse on the vibration motor. Silent where the Vibration API is missing
+// (desktop, iOS Safari), but progress callbacks still run so screens behave the same.
+export function createHapticPlayer(initialOptions: Partial<AudioOptions> = {}): MorsePlayer {
+    let timers: ReturnType<typeof setTimeout>[] = [];
+
+    const cancel = () => {
+        timers.forEach(timer => clearTimeout(timer));
+        timers = [];
+        if (canVibrate()) navigator.vibrate(0);
+    };
+
+    return createSilentPlayer(initialOptions, {
+        onRun(timeline, fromElapsed, delayMs) {
+            cancel();
+            if (!canVibrate()) return;
+            for (const chunk of chunkVibrationPattern(vibrationPattern(timeline, fromElapsed))) {
+                timers.push(setTimeout(() => navigator.vibrate(chunk.pattern), delayMs + chunk.offset));
+            }
+        },
+        onHalt: cancel,
+    });
+}
+
+// Buzzes while the key is held
+export function createHapticSidetone(): Sidetone {
+    return {
+        keyDown() {
+            if (canVibrate()) navigator.vibrate(HOLD_MS);
+        },
+        keyUp() {
+            if (canVibrate()) navigator.vibrate(0);
+        },
+        setOptions() {},
+        dispose() {
+            if (canVibrate()) navigator.vibrate(0);
+        },
+    };
+}
+
+// Several sidetones keyed together, e.g. the audio tone and the haptic one
+export function combineSidetones(sidetones: Sidetone[]): Sidetone {
+    if (sidetones.length === 1) return sidetones[0];
+    return {
+        keyDown: () => sidetones.forEach(sidetone => sidetone.keyDown()),
+        keyUp: () => sidetones.forEach(sidetone => sidetone.keyUp()),
+        setOptions: options => sidetones.forEach(sidetone => sidetone.setOptions(options)),
+        dispose: () => sidetones.forEach(sidetone => sidetone.dispose()),
+    };
+}
@@ -0,0 +1,122 @@
+import { getCodeTable, type CodeTable } from './morseAlphabet';
+import { decodeMorse, encodeText } from './morseConverter';
+
+// PARIS timing model shared by every output channel (audio, WAV, visual, haptic).
+// "PARIS " is 50 dit units long, so one dit lasts 1200 / WPM milliseconds.
+// With Farnsworth spacing characters are sent at `wpm` and only the letter and
+// word gaps are stretched until the overall speed drops to `farnsworthWpm`.
+
+export const PARIS_UNITS = 50;
+export const LETTER_GAP_UNITS = 3;
+export const WORD_GAP_UNITS = 7;
+
+export interface TimingOptions {
+    wpm: number; // Character speed
+    farnsworthWpm?: number; // Effective speed, defaults to `wpm`
+    table?: CodeTable;
+}
+
+export interface TimingUnits {
+    dit: number; // All values in milliseconds
+    elementGap: number;
+    letterGap: number;
+    wordGap: number;
+}
+
+export interface ToneSegment {
+    element: string;
+    start: number; // ms from the start of the timeline
+    duration: number;
+    letterIndex: number;
+    wordIndex: number;
+}
+
+export interface TimelineLetter {
+    code: string;
+    symbol: string | null;
+    start: number;
+    end: number;
+    wordIndex: number;
+}
+
+export interface MorseTimeline {
+    segments: ToneSegment[];
+    letters: TimelineLetter[];
+    duration: number; // Ends with the last tone, no trailing gap
+    units: TimingUnits;
+}
+
+export function ditLengthMs(wpm: number): number {
+    return 1200 / wpm;
+}
+
+export function getTimingUnits({ wpm, farnsworthWpm }: TimingOptions): TimingUnits {
+    const dit = ditLengthMs(wpm);
+    const effective = farnsworthWpm ?? wpm;
+    if (effective >= wpm) {
+        return { dit, elementGap: dit, letterGap: dit * LETTER_GAP_UNITS, wordGap: dit * WORD_GAP_UNITS };
+    }
+    // ARRL Farnsworth formula: total extra delay per PARIS word, split 3:7 between
+    // the 4 letter gaps (4 * 3 = 12 units) and the word gap (7 units) -> 19 shares.
+    const totalDelay = (1000 * (60 * wpm - 37.2 * effective)) / (effective * wpm);
+    const share = totalDelay / 19;
+    return { dit, elementGap: dit, letterGap: share * LETTER_GAP_UNITS, wordGap: share * WORD_GAP_UNITS };
+}
+
+// Builds the tone schedule for a Morse string ('.- -... / -.-.')
+export function buildTimeline(morse: string, options: TimingOptions): MorseTimeline {
+    const table = options.table ?? getCodeTable();
+    const units = getTimingUnits(options);
+    const { tokens } = decodeMorse(morse, { table });
+
+    const segments: ToneSegment[] = [];
+    const letters: TimelineLetter[] = [];
+    let cursor = 0;
+    let previousWord = -1;
+
+    tokens.forEach((token, letterIndex) => {
+        if (letterIndex > 0) cursor += token.wordIndex !== previousWord ? units.wordGap : units.letterGap;
+        previousWord = token.wordIndex;
+
+        const letterStart = cursor;
+        let needsGap = false;
+        for (const element of token.code) {
+            if (element in table.gaps) {
+                // Spaced letters in American Morse: a longer silence replaces the element gap
+                cursor += table.gaps[element] * units.dit;
+                needsGap = false;
+                continue;
+            }
+            const elementUnits = table.elementUnits[element];
+            if (elementUnits === undefined) continue; // Not a keyed element, nothing to play
+            if (needsGap) cursor += units.elementGap;
+            const duration = elementUnits * units.dit;
+            segments.push({ element, start: cursor, duration, letterIndex, wordIndex: token.wordIndex });
+            cursor += duration;
+            needsGap = true;
+        }
+        letters.push({ code: token.code, symbol: token.symbol, start: letterStart, end: cursor, wordIndex: token.wordIndex });
+    });
+
+    return { segments, letters, duration: cursor, units };
+}
+
+export function textToTimeline(text: string, options: TimingOptions): MorseTimeline {
+    return buildTimeline(encodeText(text, { table: options.table }).morse, options);
+}
+
+// Raised-cosine edge: 0 at phase 0, 1 at phase 1
+export function raisedCosine(phase: number): number {
+    return (1 - Math.cos(Math.PI * Math.min(1, Math.max(0, phase)))) / 2;
+}
+
+// Rise/fall envelope: gain (0..1) at time `t` ms into a tone of length `duration`.
+// Keeps tones free of key clicks in both the browser player and the WAV renderer.
+export function envelopeGain(t: number, duration: number, riseTime: number): number {
+    if (t < 0 || t > duration) return 0;
+    const rise = Math.min(riseTime, duration / 2);
+    if (rise <= 0) return 1;
+    if (t < rise) return raisedCosine(t / rise);
+    if (t > duration - rise) return raisedCosine((duration - t) / rise);
+    return 1;
+}
@@ -0,0 +1,159 @@
+import { DEFAULT_AUDIO_OPTIONS, type AudioOptions, type MorsePlayer, type PlaybackCallbacks, type PlaybackState } from './morseAudio';
+import { buildTimeline, textToTimeline, type MorseTimeline, type ToneSegment } from './morseTiming';
+
+// Light output for deaf and hard-of-hearing learners, or noisy rooms. The lamp
+// player follows the same PARIS timelines as the audio player and implements
+// the same MorsePlayer interface, so screens can swap or combine the two.
+
+const LEAD_IN_MS = 50; // Same lead-in as the audio player, so sound and light start together
+
+// Tone sounding at `elapsed` ms into the timeline, or null during a gap
+export function toneAt(timeline: MorseTimeline, elapsed: number): ToneSegment | null {
+    let low = 0;
+    let high = timeline.segments.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        const segment = timeline.segments[middle];
+        if (elapsed < segment.start) high = middle - 1;
+        else if (elapsed >= segment.start + segment.duration) low = middle + 1;
+        else return segment;
+    }
+    return null;
+}
+
+// Hooks for outputs that follow a timeline without the Web Audio clock
+export interface SilentOutput {
+    onTone?: (on: boolean) => void; // Each on/off change, checked once per animation frame
+    onRun?: (timeline: MorseTimeline, fromElapsed: number, delayMs: number) => void; // Started or resumed
+    onHalt?: () => void; // Paused, stopped or finished
+}
+
+// Plays timelines against performance.now() and reports to `output`, with the
+// same progress callbacks and pause/resume as the audio player. Browser only.
+export function createSilentPlayer(initialOptions: Partial<AudioOptions>, output: SilentOutput): MorsePlayer {
+    let options: AudioOptions = { ...DEFAULT_AUDIO_OPTIONS, ...initialOptions };
+    let state: PlaybackState = 'idle';
+    let frame: number | null = null;
+    let startedAt = 0; // performance.now() at elapsed 0, moved forward by pauses
+    let pausedElapsed = 0;
+    let current: { timeline: MorseTimeline; callbacks: PlaybackCallbacks; finish: () => void } | null = null;
+    let tone = false;
+
+    const setTone = (on: boolean) => {
+        if (on === tone) return;
+        tone = on;
+        output.onTone?.(on);
+    };
+
+    const halt = () => {
+        if (frame !== null) cancelAnimationFrame(frame);
+        frame = null;
+        setTone(false);
+        output.onHalt?.();
+    };
+
+    const teardown = () => {
+        halt();
+        state = 'idle';
+    };
+
+    const tick = () => {
+        if (!current || state !== 'playing') return;
+        const { timeline, callbacks, finish } = current;
+        const elapsed = Math.max(0, performance.now() - startedAt);
+        setTone(toneAt(timeline, elapsed) !== null);
+        let letterIndex = -1;
+        for (const letter of timeline.letters) {
+            if (letter.start <= elapsed) letterIndex++;
+            else break;
+        }
+        callbacks.onProgress?.({ elapsed: Math.min(elapsed, timeline.duration), duration: timeline.duration, letterIndex });
+        if (elapsed >= timeline.duration) {
+            teardown();
+            current = null;
+            callbacks.onEnd?.();
+            finish();
+            return;
+        }
+        frame = requestAnimationFrame(tick);
+    };
+
+    const play = (timeline: MorseTimeline, callbacks: PlaybackCallbacks = {}) => {
+        stop();
+        if (typeof window === 'undefined' || timeline.segments.length === 0) {
+            callbacks.onEnd?.();
+            return Promise.resolve();
+        }
+        return new Promise<void>(resolve => {
+            current = { timeline, callbacks, finish: resolve };
+            startedAt = performance.now() + LEAD_IN_MS;
+            state = 'playing';
+            output.onRun?.(timeline, 0, LEAD_IN_MS);
+            frame = requestAnimationFrame(tick);
+        });
+    };
+
+    const stop = () => {
+        if (state === 'idle') return;
+        const finish = current?.finish;
+        current = null;
+        teardown();
+        finish?.();
+    };
+
+    return {
+        playMorse: (morse, callbacks) => play(buildTimeline(morse, options), callbacks),
+        playText: (text, callbacks) => play(textToTimeline(text, options), callbacks),
+        async pause() {
+            if (state !== 'playing') return;
+            pausedElapsed = Math.max(0, performance.now() - startedAt);
+            halt();
+            state = 'paused';
+        },
+        async resume() {
+            if (state !== 'paused' || !current) return;
+            startedAt = performance.now() - pausedElapsed;
+            state = 'playing';
+            output.onRun?.(current.timeline, pausedElapsed, 0);
+            frame = requestAnimationFrame(tick);
+        },
+        stop,
+        getState: () => state,
+        setOptions(next) {
+            options = { ...options, ...next };
+        },
+    };
+}
+
+// Drives `onLamp` with the on/off state of the signal
+export function createLampPlayer(initialOptions: Partial<AudioOptions>, onLamp: (on: boolean) => void): MorsePlayer {
+    return createSilentPlayer(initialOptions, { onTone: onLamp });
+}
+
+// Several players acting as one, e.g. sound and light together. Progress
+// callbacks come from the first player only, so they are not reported twice.
+export function combinePlayers(players: MorsePlayer[]): MorsePlayer {
+    if (players.length === 1) return players[0];
+    const [first, ...rest] = players;
+    return {
+        async playMorse(morse, callbacks) {
+            await Promise.all([first.playMorse(morse, callbacks), ...rest.map(player => player.playMorse(morse))]);
+        },
+        async playText(text, callbacks) {
+            await Promise.all([first.playText(text, callbacks), ...rest.map(player => player.playText(text))]);
+        },
+        async pause() {
+            await Promise.all(players.map(player => player.pause()));
+        },
+        async resume() {
+            await Promise.all(players.map(player => player.resume()));
+        },
+        stop() {
+            players.forEach(player => player.stop());
+        },
+        getState: () => first.getState(),
+        setOptions(options) {
+            players.forEach(player => player.setOptions(options));
+        },
+    };
+}
@@ -0,0 +1,155 @@
+import { envelopeGain, type MorseTimeline } from './morseTiming';
+import type { AudioOptions } from './morseAudio';
+
+// Offline PCM rendering of a Morse timeline and a minimal RIFF/WAV writer.
+// Pure and deterministic: the same timeline and options always produce the same bytes,
+// using the same timing and envelope rules as the in-browser player.
+
+export interface WavRenderOptions extends Pick<AudioOptions, 'frequency' | 'volume' | 'riseTime'> {
+    sampleRate: number;
+    padding: number; // Silence in ms before and after the Morse
+}
+
+export const DEFAULT_WAV_OPTIONS: WavRenderOptions = {
+    sampleRate: 8000, // Plenty for a sub-1 kHz sine and keeps downloads small
+    frequency: 600,
+    volume: 0.5,
+    riseTime: 5,
+    padding: 250,
+};
+
+// 16-bit signed mono samples for the whole timeline
+export function renderTimelineSamples(timeline: MorseTimeline, options: Partial<WavRenderOptions> = {}): Int16Array {
+    const { sampleRate, frequency, volume, riseTime, padding } = { ...DEFAULT_WAV_OPTIONS, ...options };
+    const msToSamples = (ms: number) => Math.round((ms * sampleRate) / 1000);
+    const offset = msToSamples(padding);
+    const samples = new Int16Array(msToSamples(timeline.duration) + offset * 2);
+    const amplitude = Math.max(0, Math.min(1, volume)) * 32767;
+    const phaseStep = (2 * Math.PI * frequency) / sampleRate;
+
+    for (const segment of timeline.segments) {
+        const first = offset + msToSamples(segment.start);
+        const count = msToSamples(segment.duration);
+        for (let i = 0; i < count; i++) {
+            const n = first + i;
+            if (n >= samples.length) break;
+            const t = (i * 1000) / sampleRate;
+            // Phase follows the absolute sample index so output never depends on float accumulation
+            samples[n] = Math.round(amplitude * envelopeGain(t, segment.duration, riseTime) * Math.sin(phaseStep * n));
+        }
+    }
+    return samples;
+}
+
+// Wraps 16-bit mono PCM in a canonical 44-byte RIFF/WAVE header
+export function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+    const dataSize = samples.length * 2;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+    const writeAscii = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    writeAscii(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeAscii(8, 'WAVE');
+    writeAscii(12, 'fmt ');
+    view.setUint32(16, 16, true); // PCM fmt chunk size
+    view.setUint16(20, 1, true); // Audio format: PCM
+    view.setUint16(22, 1, true); // Channels: mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // Byte rate
+    view.setUint16(32, 2, true); // Block align
+    view.setUint16(34, 16, true); // Bits per sample
+    writeAscii(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    for (let i = 0; i < samples.length; i++) view.setInt16(44 + i * 2, samples[i], true);
+    return new Uint8Array(buffer);
+}
+
+export function timelineToWav(timeline: MorseTimeline, options: Partial<WavRenderOptions> = {}): Uint8Array {
+    const sampleRate = options.sampleRate ?? DEFAULT_WAV_OPTIONS.sampleRate;
+    return encodeWav(renderTimelineSamples(timeline, options), sampleRate);
+}
+
+export interface AudioUrlParams {
+    text: string;
+    wpm?: number;
+    farnsworth?: number;
+    freq?: number;
+    table?: string;
+}
+
+// Link to the /audio.wav resource route
+export function buildAudioUrl({ text, wpm, farnsworth, freq, table }: AudioUrlParams): string {
+    const params = new URLSearchParams({ text });
+    if (wpm !== undefined) params.set('wpm', String(wpm));
+    if (farnsworth !== undefined) params.set('farnsworth', String(farnsworth));
+    if (freq !== undefined) params.set('freq', String(freq));
+    if (table) params.set('table', table);
+    return `/audio.wav?${params.toString()}`;
+}
+
+export interface WavAudio {
+    samples: Float32Array; // Mono, -1..1
+    sampleRate: number;
+}
+
+// Reads PCM WAV files (8/16/24/32-bit integer or 32-bit float, any channel count)
+// into mono samples, e.g. for the audio decoder. Throws with a readable message otherwise.
+export function decodeWav(bytes: Uint8Array): WavAudio {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const readAscii = (offset: number, length: number) =>
+        String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+    if (bytes.length < 12 || readAscii(0, 4) !== 'RIFF' || readAscii(8, 4) !== 'WAVE') {
+        throw new Error('The file is not a WAV file.');
+    }
+
+    let format: { code: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+    let data: { offset: number; length: number } | null = null;
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const id = readAscii(offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+        if (id === 'fmt ' && size >= 16) {
+            let code = view.getUint16(body, true);
+            if (code === 0xfffe && size >= 26) code = view.getUint16(body + 24, true); // WAVE_FORMAT_EXTENSIBLE sub-format
+            format = { code, channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true), bitsPerSample: view.getUint16(body + 14, true) };
+        } else if (id === 'data') {
+            data = { offset: body, length: Math.min(size, bytes.length - body) }; // Tolerate truncated files
+        }
+        offset = body + size + (size % 2); // Chunks are word-aligned
+    }
+
+    if (!format || !data) throw new Error('The WAV file has no audio data.');
+    const { code, channels, sampleRate, bitsPerSample } = format;
+    const isFloat = code === 3 && bitsPerSample === 32;
+    if (!(code === 1 && [8, 16, 24, 32].includes(bitsPerSample)) && !isFloat) {
+        throw new Error('Only uncompressed PCM WAV files are supported.');
+    }
+    if (channels < 1 || sampleRate <= 0) throw new Error('The WAV file header is invalid.');
+
+    const bytesPerSample = bitsPerSample / 8;
+    const frameCount = Math.floor(data.length / (bytesPerSample * channels));
+    const read = (offset: number): number => {
+        if (isFloat) return view.getFloat32(offset, true);
+        switch (bitsPerSample) {
+            case 8: return (view.getUint8(offset) - 128) / 128; // 8-bit WAV is unsigned
+            case 16: return view.getInt16(offset, true) / 32768;
+            case 24: return ((view.getUint8(offset + 2) << 24) | (view.getUint8(offset + 1) << 16) | (view.getUint8(offset) << 8)) / 2147483648;
+            default: return view.getInt32(offset, true) / 2147483648;
+        }
+    };
+
+    const samples = new Float32Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+            sum += read(data.offset + (frame * channels + channel) * bytesPerSample);
+        }
+        samples[frame] = sum / channels;
+    }
+    return { samples, sampleRate };
+}
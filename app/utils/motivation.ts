@@ -0,0 +1,326 @@
+import type { PracticeMode } from './progressStore';
+
+// Daily goals, streaks and achievements. A pure rules engine: practice events
+// go in (every attempt through applyAttempt, plus milestones such as finishing
+// the Koch lesson) and the updated MotivationState comes out, with the ids of
+// any achievements the event unlocked.
+//
+// Days are calendar days in the learner's time zone, so a streak neither breaks
+// nor doubles up when the device clock changes zone or daylight saving starts.
+// A streak counts the days the daily goal was met; a streak freeze, earned
+// every FREEZE_EVERY streak days, covers one missed day.
+
+export type GoalKind = 'minutes' | 'attempts';
+
+export interface DailyGoal {
+    kind: GoalKind;
+    target: number; // Minutes of practice or answers per day
+}
+
+export const DEFAULT_DAILY_GOAL: DailyGoal = { kind: 'minutes', target: 10 };
+export const GOAL_TARGETS: { [kind in GoalKind]: number[] } = {
+    minutes: [5, 10, 15, 20, 30],
+    attempts: [20, 50, 100, 200],
+};
+
+export const FREEZE_EVERY = 7; // Streak days per freeze earned
+export const MAX_FREEZES = 2;
+const ACTIVE_GAP_MS = 2 * 60 * 1000; // A longer pause between answers is a break, not practice time
+const FIRST_ANSWER_MS = 10 * 1000; // Credit for the first answer after a break when it has no response time
+const MAX_DAYS = 400; // Daily tallies kept
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DayActivity {
+    attempts: number;
+    correct: number;
+    activeMs: number;
+    goalMet: boolean; // Against the goal in force that day
+}
+
+export interface MotivationTotals {
+    attempts: number;
+    correct: number;
+    wordsCorrect: number; // Words keyed correctly in Learn Words
+    bestCopyWpm: number; // Fastest speed of a correct copy
+    lessonsMastered: number; // Koch lessons completed and passed, any code table
+    goalDays: number;
+}
+
+export interface MotivationState {
+    timeZone: string | null; // IANA zone days are counted in; null uses the device's
+    goal: DailyGoal;
+    freezesEnabled: boolean;
+    days: { [day: string]: DayActivity }; // YYYY-MM-DD, capped at MAX_DAYS
+    streak: number; // Goal days in a row up to lastGoalDay
+    bestStreak: number;
+    lastGoalDay: string | null;
+    freezes: number; // Freezes in stock
+    frozenDays: string[]; // Missed days a freeze covered
+    lastEventAt: number | null;
+    totals: MotivationTotals;
+    achievements: { [id: string]: number }; // Unlock time per achievement id
+}
+
+export type PracticeEvent =
+    | { type: 'attempt'; time: number; mode: PracticeMode; correct: boolean; responseMs?: number | null; copyWpm?: number | null }
+    | { type: 'lesson-mastered'; time: number };
+
+export interface AchievementDefinition {
+    id: string;
+    title: string;
+    description: string;
+    target: number;
+    progress: (state: MotivationState) => number; // Unlocked once this reaches target
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+    { id: 'first-answer', title: 'First Contact', description: 'Get your first answer right.', target: 1, progress: state => state.totals.correct },
+    { id: 'first-goal', title: 'Goal!', description: 'Meet your daily goal.', target: 1, progress: state => state.totals.goalDays },
+    { id: 'letters-mastered', title: 'Alphabet Master', description: 'Master every character in Learn Letters.', target: 1, progress: state => state.totals.lessonsMastered },
+    { id: 'copy-10-wpm', title: 'Ten Words a Minute', description: 'Copy correctly at 10 WPM or faster.', target: 10, progress: state => Math.floor(state.totals.bestCopyWpm) },
+    { id: 'words-100', title: 'Wordsmith', description: 'Key 100 words correctly in Learn Words.', target: 100, progress: state => state.totals.wordsCorrect },
+    { id: 'streak-7', title: 'One Week Strong', description: 'Keep a 7-day streak.', target: 7, progress: state => state.bestStreak },
+    { id: 'streak-30', title: 'Dedicated Operator', description: 'Keep a 30-day streak.', target: 30, progress: state => state.bestStreak },
+    { id: 'answers-1000', title: 'Thousand Answers', description: 'Answer 1000 prompts in any mode.', target: 1000, progress: state => state.totals.attempts },
+];
+
+export function createMotivationState(): MotivationState {
+    return {
+        timeZone: null,
+        goal: DEFAULT_DAILY_GOAL,
+        freezesEnabled: true,
+        days: {},
+        streak: 0,
+        bestStreak: 0,
+        lastGoalDay: null,
+        freezes: 0,
+        frozenDays: [],
+        lastEventAt: null,
+        totals: { attempts: 0, correct: 0, wordsCorrect: 0, bestCopyWpm: 0, lessonsMastered: 0, goalDays: 0 },
+        achievements: {},
+    };
+}
+
+type RawRecord = { [key: string]: unknown };
+
+const isRecord = (value: unknown): value is RawRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const count = (value: unknown, fallback = 0): number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+const isDay = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Turns stored or imported data into a valid state, field by field; anything
+// missing or malformed falls back to the defaults so totals never become NaN
+export function parseMotivationState(raw: unknown): MotivationState {
+    const d = createMotivationState();
+    if (!isRecord(raw)) return d;
+    const totals = isRecord(raw.totals) ? raw.totals : {};
+    const goal = isRecord(raw.goal) ? raw.goal : {};
+    const goalKind = goal.kind === 'minutes' || goal.kind === 'attempts' ? goal.kind : d.goal.kind;
+    const goalTarget = count(goal.target);
+
+    const days: MotivationState['days'] = {};
+    if (isRecord(raw.days)) {
+        for (const [day, activity] of Object.entries(raw.days)) {
+            if (!isDay(day) || !isRecord(activity)) continue;
+            days[day] = {
+                attempts: count(activity.attempts),
+                correct: count(activity.correct),
+                activeMs: count(activity.activeMs),
+                goalMet: activity.goalMet === true,
+            };
+        }
+    }
+    const achievements: MotivationState['achievements'] = {};
+    if (isRecord(raw.achievements)) {
+        for (const [id, time] of Object.entries(raw.achievements)) {
+            if (typeof time === 'number' && Number.isFinite(time)) achievements[id] = time;
+        }
+    }
+
+    return {
+        timeZone: typeof raw.timeZone === 'string' && raw.timeZone ? raw.timeZone : d.timeZone,
+        goal: goalKind === goal.kind && goalTarget > 0 ? { kind: goalKind, target: goalTarget } : d.goal,
+        freezesEnabled: typeof raw.freezesEnabled === 'boolean' ? raw.freezesEnabled : d.freezesEnabled,
+        days,
+        streak: Math.floor(count(raw.streak)),
+        bestStreak: Math.floor(count(raw.bestStreak)),
+        lastGoalDay: isDay(raw.lastGoalDay) ? raw.lastGoalDay : d.lastGoalDay,
+        freezes: Math.min(MAX_FREEZES, Math.floor(count(raw.freezes))),
+        frozenDays: Array.isArray(raw.frozenDays) ? raw.frozenDays.filter(isDay) : d.frozenDays,
+        lastEventAt: typeof raw.lastEventAt === 'number' && Number.isFinite(raw.lastEventAt) ? raw.lastEventAt : d.lastEventAt,
+        totals: {
+            attempts: count(totals.attempts),
+            correct: count(totals.correct),
+            wordsCorrect: count(totals.wordsCorrect),
+            bestCopyWpm: count(totals.bestCopyWpm),
+            lessonsMastered: count(totals.lessonsMastered),
+            goalDays: count(totals.goalDays),
+        },
+        achievements,
+    };
+}
+
+// --- Days ---
+
+const dayFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar day of `time` in `timeZone`, as YYYY-MM-DD; falls back to the device zone for an unknown zone
+export function dayKeyInZone(time: number, timeZone: string | null): string {
+    const key = timeZone ?? '';
+    let format = dayFormats.get(key);
+    if (!format) {
+        const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: '2-digit', day: '2-digit' };
+        try {
+            format = new Intl.DateTimeFormat('en-CA', timeZone ? { ...options, timeZone } : options);
+        } catch {
+            format = new Intl.DateTimeFormat('en-CA', options);
+        }
+        dayFormats.set(key, format);
+    }
+    const parts = Object.fromEntries(format.formatToParts(new Date(time)).map(part => [part.type, part.value]));
+    return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+// Whole days from `from` to `to`; calendar arithmetic, so no zone or DST is involved
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export function addDays(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// --- Goals and streaks ---
+
+export function isGoalMet(activity: DayActivity | undefined, goal: DailyGoal): boolean {
+    if (!activity) return false;
+    return goal.kind === 'minutes' ? activity.activeMs >= goal.target * 60000 : activity.attempts >= goal.target;
+}
+
+export function getGoalProgress(activity: DayActivity | undefined, goal: DailyGoal): { value: number; target: number; fraction: number } {
+    const value = !activity ? 0 : goal.kind === 'minutes' ? Math.floor(activity.activeMs / 60000) : activity.attempts;
+    return { value, target: goal.target, fraction: Math.min(1, value / goal.target) };
+}
+
+// Counts `day` as a goal day. Missed days since the last goal day are covered by
+// freezes when there are enough of them, otherwise the streak starts over.
+function extendStreak(state: MotivationState, day: string): MotivationState {
+    const missed = state.lastGoalDay ? daysBetween(state.lastGoalDay, day) - 1 : 0;
+    if (missed < 0) return state; // Already counted, or earlier than the last goal day after a zone change
+    let { freezes, frozenDays } = state;
+    let streak = 1;
+    if (state.lastGoalDay && missed === 0) {
+        streak = state.streak + 1;
+    } else if (state.lastGoalDay && missed > 0 && state.freezesEnabled && missed <= freezes) {
+        streak = state.streak + 1;
+        freezes -= missed;
+        frozenDays = [...frozenDays, ...Array.from({ length: missed }, (_, index) => addDays(state.lastGoalDay!, index + 1))].slice(-MAX_DAYS);
+    }
+    if (streak % FREEZE_EVERY === 0) freezes = Math.min(MAX_FREEZES, freezes + 1);
+    return { ...state, streak, bestStreak: Math.max(state.bestStreak, streak), lastGoalDay: day, freezes, frozenDays };
+}
+
+export interface StreakStatus {
+    current: number; // 0 once the streak is broken
+    best: number;
+    today: string;
+    todayDone: boolean;
+    freezes: number;
+    freezesNeeded: number; // Missed days the next goal day would spend freezes on
+}
+
+// The streak as it stands at `now`; today still counts as open until it ends
+export function getStreakStatus(state: MotivationState, now: number): StreakStatus {
+    const today = dayKeyInZone(now, state.timeZone);
+    const todayDone = state.lastGoalDay === today;
+    const missed = state.lastGoalDay && !todayDone ? daysBetween(state.lastGoalDay, today) - 1 : 0;
+    const alive = missed <= 0 || (state.freezesEnabled && missed <= state.freezes);
+    return {
+        current: alive ? state.streak : 0,
+        best: state.bestStreak,
+        today,
+        todayDone,
+        freezes: state.freezes,
+        freezesNeeded: alive ? Math.max(0, missed) : 0,
+    };
+}
+
+// --- Events ---
+
+function unlockAchievements(state: MotivationState, time: number): { state: MotivationState; unlocked: string[] } {
+    const unlocked = ACHIEVEMENTS
+        .filter(achievement => state.achievements[achievement.id] === undefined && achievement.progress(state) >= achievement.target)
+        .map(achievement => achievement.id);
+    if (unlocked.length === 0) return { state, unlocked };
+    const achievements = { ...state.achievements };
+    unlocked.forEach(id => {
+        achievements[id] = time;
+    });
+    return { state: { ...state, achievements }, unlocked };
+}
+
+function pruneDays(days: MotivationState['days']): MotivationState['days'] {
+    const keys = Object.keys(days);
+    if (keys.length <= MAX_DAYS) return days;
+    const keep = new Set(keys.sort().slice(-MAX_DAYS));
+    return Object.fromEntries(Object.entries(days).filter(([day]) => keep.has(day)));
+}
+
+export function recordPracticeEvent(state: MotivationState, event: PracticeEvent): { state: MotivationState; unlocked: string[] } {
+    if (event.type === 'lesson-mastered') {
+        const next = { ...state, totals: { ...state.totals, lessonsMastered: state.totals.lessonsMastered + 1 } };
+        return unlockAchievements(next, event.time);
+    }
+
+    const day = dayKeyInZone(event.time, state.timeZone);
+    const gap = state.lastEventAt !== null ? event.time - state.lastEventAt : null;
+    const activeMs = gap !== null && gap >= 0 && gap <= ACTIVE_GAP_MS
+        ? gap
+        : Math.min(ACTIVE_GAP_MS, event.responseMs ?? FIRST_ANSWER_MS);
+    const previous = state.days[day] ?? { attempts: 0, correct: 0, activeMs: 0, goalMet: false };
+    const activity: DayActivity = {
+        ...previous,
+        attempts: previous.attempts + 1,
+        correct: previous.correct + (event.correct ? 1 : 0),
+        activeMs: previous.activeMs + activeMs,
+    };
+    const reachedGoal = !previous.goalMet && isGoalMet(activity, state.goal);
+
+    const totals: MotivationTotals = {
+        ...state.totals,
+        attempts: state.totals.attempts + 1,
+        correct: state.totals.correct + (event.correct ? 1 : 0),
+        wordsCorrect: state.totals.wordsCorrect + (event.correct && event.mode === 'words' ? 1 : 0),
+        bestCopyWpm: event.correct && event.copyWpm ? Math.max(state.totals.bestCopyWpm, event.copyWpm) : state.totals.bestCopyWpm,
+        goalDays: state.totals.goalDays + (reachedGoal ? 1 : 0),
+    };
+
+    let next: MotivationState = {
+        ...state,
+        days: pruneDays({ ...state.days, [day]: { ...activity, goalMet: previous.goalMet || reachedGoal } }),
+        lastEventAt: event.time,
+        totals,
+    };
+    if (reachedGoal) next = extendStreak(next, day);
+    return unlockAchievements(next, event.time);
+}
+
+// A new goal applies from today on; meeting it straight away counts for today
+export function setDailyGoal(state: MotivationState, goal: DailyGoal, now: number): MotivationState {
+    const next = { ...state, goal };
+    const day = dayKeyInZone(now, state.timeZone);
+    const today = next.days[day];
+    if (!today || today.goalMet || !isGoalMet(today, goal)) return next;
+    const met = extendStreak(
+        {
+            ...next,
+            days: { ...next.days, [day]: { ...today, goalMet: true } },
+            totals: { ...next.totals, goalDays: next.totals.goalDays + 1 },
+        },
+        day,
+    );
+    return unlockAchievements(met, now).state;
+}
@@ -0,0 +1,173 @@
+import { getCodeTable, type CodeTable } from './morseAlphabet';
+import { decodeMorse, encodeText, wordToMorse } from './morseConverter';
+
+// Phrase curriculum for the Learn Phrases page.
+// Phrases are grouped into levels: short everyday phrases first, then the
+// standard pieces of an amateur-radio contact (QSO), then full exchanges.
+// Checking compares the learner's Morse word by word and letter by letter.
+
+export type PhraseCategory = 'everyday' | 'qso' | 'qcode' | 'abbreviation';
+
+export interface Phrase {
+    id: string;
+    text: string; // Upper case, words separated by single spaces
+    category: PhraseCategory;
+    level: number;
+    meaning?: string; // Plain-English reading for ham-radio shorthand
+}
+
+export interface PhraseLevel {
+    level: number;
+    name: string;
+    description: string;
+}
+
+export const PHRASE_LEVELS: PhraseLevel[] = [
+    { level: 1, name: 'First phrases', description: 'Two or three short everyday words.' },
+    { level: 2, name: 'On the air', description: 'Common ham-radio abbreviations and sign-offs.' },
+    { level: 3, name: 'Q-codes and reports', description: 'Q-codes, signal reports and callsigns.' },
+    { level: 4, name: 'Full exchanges', description: 'Complete calls and QSO lines with numbers and prosigns.' },
+];
+
+export const PHRASES: Phrase[] = [
+    // Level 1: everyday
+    { id: 'hi-there', text: 'HI THERE', category: 'everyday', level: 1 },
+    { id: 'good-day', text: 'GOOD DAY', category: 'everyday', level: 1 },
+    { id: 'see-you', text: 'SEE YOU SOON', category: 'everyday', level: 1 },
+    { id: 'thank-you', text: 'THANK YOU', category: 'everyday', level: 1 },
+    { id: 'all-is-well', text: 'ALL IS WELL', category: 'everyday', level: 1 },
+    { id: 'how-are-you', text: 'HOW ARE YOU', category: 'everyday', level: 1 },
+    { id: 'call-me', text: 'CALL ME LATER', category: 'everyday', level: 1 },
+    { id: 'send-help', text: 'SEND HELP', category: 'everyday', level: 1 },
+
+    // Level 2: abbreviations and sign-offs
+    { id: '73', text: '73', category: 'abbreviation', level: 2, meaning: 'Best regards' },
+    { id: 'tnx-73', text: 'TNX 73', category: 'abbreviation', level: 2, meaning: 'Thanks, best regards' },
+    { id: 'gm-om', text: 'GM OM', category: 'abbreviation', level: 2, meaning: 'Good morning, old man (fellow operator)' },
+    { id: 'ga-es-tnx', text: 'GA ES TNX FER CALL', category: 'abbreviation', level: 2, meaning: 'Good afternoon and thanks for the call' },
+    { id: 'fb-om', text: 'FB OM', category: 'abbreviation', level: 2, meaning: 'Fine business (great), old man' },
+    { id: 'hw-cpy', text: 'HW CPY', category: 'abbreviation', level: 2, meaning: 'How do you copy?' },
+    { id: 'cul', text: 'CUL 73', category: 'abbreviation', level: 2, meaning: 'See you later, best regards' },
+    { id: 'pse-rpt', text: 'PSE RPT', category: 'abbreviation', level: 2, meaning: 'Please repeat' },
+
+    // Level 3: Q-codes, reports, callsigns
+    { id: 'qth', text: 'QTH LONDON', category: 'qcode', level: 3, meaning: 'My location is London' },
+    { id: 'qsl', text: 'QSL VIA BURO', category: 'qcode', level: 3, meaning: 'Confirmation card via the QSL bureau' },
+    { id: 'qrz', text: 'QRZ?', category: 'qcode', level: 3, meaning: 'Who is calling me?' },
+    { id: 'qrs', text: 'QRS PSE', category: 'qcode', level: 3, meaning: 'Please send more slowly' },
+    { id: 'qrm', text: 'QRM HR', category: 'qcode', level: 3, meaning: 'Interference here' },
+    { id: 'rst-599', text: 'UR RST 599', category: 'qso', level: 3, meaning: 'Your signal report is 599' },
+    { id: 'rst-579', text: 'RST 579 579', category: 'qso', level: 3, meaning: 'Signal report 579, sent twice' },
+    { id: 'name', text: 'NAME IS JOHN', category: 'qso', level: 3, meaning: 'My name is John' },
+    { id: 'de-call', text: 'DE W1AW', category: 'qso', level: 3, meaning: 'This is W1AW' },
+
+    // Level 4: full exchanges
+    { id: 'cq-cq', text: 'CQ CQ DE W1AW W1AW K', category: 'qso', level: 4, meaning: 'Calling anyone, this is W1AW, over' },
+    { id: 'cq-test', text: 'CQ TEST DE G4ABC', category: 'qso', level: 4, meaning: 'Contest call from G4ABC' },
+    { id: 'answer-cq', text: 'W1AW DE G4ABC KN', category: 'qso', level: 4, meaning: 'W1AW, this is G4ABC, over to you only' },
+    { id: 'report-qth', text: 'UR RST 559 QTH PARIS', category: 'qso', level: 4, meaning: 'Your report is 559, my location is Paris' },
+    { id: 'rig', text: 'RIG HR IS 5W ES DIPOLE', category: 'qso', level: 4, meaning: 'My radio runs 5 watts into a dipole antenna' },
+    { id: 'qsl-tnx', text: 'QSL TNX FER QSO <AR>', category: 'qso', level: 4, meaning: 'Received, thanks for the contact, end of message' },
+    { id: 'sign-off', text: 'TNX QSO 73 <SK>', category: 'qso', level: 4, meaning: 'Thanks for the contact, best regards, end of contact' },
+    { id: 'wx', text: 'WX SUNNY TEMP 20C', category: 'qso', level: 4, meaning: 'Weather sunny, temperature 20 °C' },
+];
+
+export function getPhraseLevel(level: number): PhraseLevel | undefined {
+    return PHRASE_LEVELS.find(l => l.level === level);
+}
+
+// Phrases with a prosign or character the table cannot send are left out
+export function isPhraseSendable(phrase: Phrase, table: CodeTable = getCodeTable()): boolean {
+    return encodeText(phrase.text, { table }).unmappable.length === 0;
+}
+
+export function getPhrasesForLevel(level: number, table: CodeTable = getCodeTable()): Phrase[] {
+    return PHRASES.filter(phrase => phrase.level === level && isPhraseSendable(phrase, table));
+}
+
+// Random phrase from a level, avoiding the previous one when there is a choice
+export function pickPhrase(level: number, table: CodeTable = getCodeTable(), excludeId?: string, random: () => number = Math.random): Phrase | undefined {
+    const pool = getPhrasesForLevel(level, table);
+    const choices = pool.length > 1 ? pool.filter(phrase => phrase.id !== excludeId) : pool;
+    return choices[Math.floor(random() * choices.length)];
+}
+
+// Reference Morse for a phrase: letters separated by ' ', words by ' / '
+export function phraseToMorse(text: string, table: CodeTable = getCodeTable()): string {
+    return encodeText(text, { table }).morse;
+}
+
+// --- Checking ---
+
+export interface LetterCheck {
+    symbol: string | null; // Expected symbol, null for an extra letter the learner added
+    expected: string | null; // Expected code, null for an extra letter
+    actual: string | null; // Keyed code, null when the letter is missing
+    correct: boolean;
+}
+
+export interface WordCheck {
+    word: string | null; // Expected word, null for an extra word
+    expected: string; // Reference Morse for the word, built with wordToMorse
+    actual: string;
+    correct: boolean;
+    letters: LetterCheck[];
+}
+
+export interface PhraseCheck {
+    correct: boolean;
+    words: WordCheck[];
+    correctWords: number;
+    correctLetters: number;
+    totalLetters: number; // Letters in the phrase itself
+}
+
+// Compares letters in order; alignment-aware diffs are out of scope here, so a
+// missing letter shifts the rest of the word and shows as several mistakes
+function checkWord(word: string | null, actualCodes: string[], table: CodeTable): WordCheck {
+    const expectedTokens = word ? encodeText(word, { table }).tokens : [];
+    const length = Math.max(expectedTokens.length, actualCodes.length);
+    const letters: LetterCheck[] = [];
+    for (let i = 0; i < length; i++) {
+        const token = expectedTokens[i];
+        const actual = actualCodes[i] ?? null;
+        letters.push({
+            symbol: token?.symbol ?? null,
+            expected: token?.code ?? null,
+            actual,
+            correct: !!token && token.code === actual,
+        });
+    }
+    return {
+        word,
+        expected: word ? wordToMorse(word, table) : '',
+        actual: actualCodes.join(' '),
+        correct: word !== null && letters.every(letter => letter.correct),
+        letters,
+    };
+}
+
+// Input uses the same separators as decodeMorse: ' ' between letters and
+// '/', '|', a newline or two or more spaces between words
+export function checkPhrase(input: string, text: string, table: CodeTable = getCodeTable()): PhraseCheck {
+    const expectedWords = text.trim().split(/\s+/).filter(Boolean);
+    const actualWords: string[][] = [];
+    for (const token of decodeMorse(input, { table }).tokens) {
+        (actualWords[token.wordIndex] ??= []).push(token.code);
+    }
+    const wordCount = Math.max(expectedWords.length, actualWords.length);
+
+    const words: WordCheck[] = [];
+    for (let i = 0; i < wordCount; i++) {
+        words.push(checkWord(expectedWords[i] ?? null, actualWords[i] ?? [], table));
+    }
+
+    const phraseLetters = words.flatMap(word => word.letters.filter(letter => letter.symbol !== null));
+    return {
+        correct: words.every(word => word.correct),
+        words,
+        correctWords: words.filter(word => word.correct).length,
+        correctLetters: phraseLetters.filter(letter => letter.correct).length,
+        totalLetters: phraseLetters.length,
+    };
+}
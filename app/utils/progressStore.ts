@@ -0,0 +1,466 @@
+import { GAME_DIFFICULTIES, type GameDifficulty } from './fallingLetters';
+import { createMotivationState, parseMotivationState, recordPracticeEvent, type MotivationState, type PracticeEvent } from './motivation';
+import { createDeck, parseDeck, type SrsDeck } from './srs';
+
+// Learner progress storage.
+// Everything the app remembers about a learner lives in one versioned
+// LearnerProgress document behind the ProgressRepository interface. The browser
+// uses IndexedDB (or localStorage as a fallback); a server implementation only
+// has to provide the same three methods. Stored and imported documents always
+// pass through migrateProgress, so older schema versions keep loading.
+
+export const PROGRESS_SCHEMA_VERSION = 5;
+const EXPORT_FORMAT = 'morsemuse-progress';
+const MAX_SESSIONS = 200;
+const MAX_ATTEMPT_LOG = 5000; // About 300 KB of JSON; enough for months of daily practice
+export const MAX_HIGH_SCORES = 10;
+
+export type PracticeMode = 'letters' | 'words' | 'phrases' | 'receive' | 'drill';
+const PRACTICE_MODES: PracticeMode[] = ['letters', 'words', 'phrases', 'receive', 'drill'];
+export type DrillMode = 'timed-send' | 'timed-receive' | 'ladder';
+
+export interface CharacterStats {
+    attempts: number;
+    correct: number;
+    lastPracticed: number | null;
+}
+
+export interface SessionRecord {
+    id: string;
+    mode: PracticeMode;
+    startedAt: number;
+    endedAt: number;
+    attempts: number;
+    correct: number;
+}
+
+// What the learner gave for one expected character of an attempt
+export interface CharacterOutcome {
+    expected: string;
+    given: string | null; // '?' for a code that is no character, null when missed or not known
+}
+
+// One answer, as the stats dashboard sees it
+export interface AttemptLogEntry {
+    time: number;
+    sessionId: string;
+    mode: PracticeMode;
+    prompt: string; // What was asked, e.g. 'K' or 'HELLO'
+    expected: string; // Expected answer: Morse when sending, text when copying
+    given: string;
+    correct: boolean;
+    responseMs: number | null; // From prompt to answer
+    pressDurations: number[] | null; // Key-down time per element when the answer was keyed
+    characters: CharacterOutcome[];
+}
+
+// Fastest result in a speed drill
+export interface BestSpeed {
+    wpm: number;
+    cpm: number | null; // Timed drills only
+    time: number;
+}
+
+// One finished game of the falling-letters arcade
+export interface HighScore {
+    score: number;
+    level: number;
+    cleared: number;
+    bestCombo: number;
+    difficulty: GameDifficulty;
+    time: number;
+}
+
+export interface LearnerProgress {
+    version: number;
+    characterStats: { [symbol: string]: CharacterStats };
+    sessions: SessionRecord[]; // Oldest first, capped at MAX_SESSIONS
+    attempts: AttemptLogEntry[]; // Oldest first, capped at MAX_ATTEMPT_LOG
+    bestSpeeds: { [mode: string]: BestSpeed }; // Keyed by DrillMode
+    highScores: HighScore[]; // Best first, capped at MAX_HIGH_SCORES
+    motivation: MotivationState; // Daily goal, streak and achievements
+    settings: { [key: string]: unknown };
+    srs: SrsDeck;
+    koch: { [codeTableId: string]: { unlockedCount: number; masteredCount?: number } }; // masteredCount: unlocked count last credited as mastered
+    updatedAt: number;
+}
+
+export interface ProgressRepository {
+    load: () => Promise<LearnerProgress>;
+    save: (progress: LearnerProgress) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+export function createEmptyProgress(now: number = Date.now()): LearnerProgress {
+    return {
+        version: PROGRESS_SCHEMA_VERSION,
+        characterStats: {},
+        sessions: [],
+        attempts: [],
+        bestSpeeds: {},
+        highScores: [],
+        motivation: createMotivationState(),
+        settings: {},
+        srs: createDeck(),
+        koch: {},
+        updatedAt: now,
+    };
+}
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version-n document to version n + 1.
+// Version 0 is anything written before the schema had a version field.
+
+type RawProgress = { [key: string]: unknown };
+
+const MIGRATIONS: { [fromVersion: number]: (data: RawProgress) => RawProgress } = {
+    0: data => ({ ...createEmptyProgress(0), ...data, version: 1 }),
+    1: data => ({ ...data, attempts: [], version: 2 }), // Attempt log for stats starts empty
+    2: data => ({ ...data, bestSpeeds: {}, version: 3 }),
+    3: data => ({ ...data, highScores: [], version: 4 }),
+    4: data => ({ ...data, motivation: replayAttempts(parseList(data.attempts, parseAttemptEntry)), version: 5 }),
+};
+
+// Streaks and achievements for practice logged before they existed
+function replayAttempts(attempts: AttemptLogEntry[]): MotivationState {
+    return attempts.reduce(
+        (state, entry) => recordPracticeEvent(state, { type: 'attempt', time: entry.time, mode: entry.mode, correct: entry.correct, responseMs: entry.responseMs }).state,
+        createMotivationState(),
+    );
+}
+
+const isObject = (value: unknown): value is RawProgress =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Entry validation ---
+// Stored and imported entries are checked field by field. An entry with a
+// missing or malformed field is dropped rather than kept half-valid, since the
+// stats and learning screens read these fields without checking them again.
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isMode = (value: unknown): value is PracticeMode => PRACTICE_MODES.includes(value as PracticeMode);
+const orNull = (value: unknown): number | null => (isFiniteNumber(value) ? value : null);
+
+function parseList<T>(raw: unknown, parse: (entry: RawProgress) => T | null): T[] {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(entry => {
+        const parsed = isObject(entry) ? parse(entry) : null;
+        return parsed === null ? [] : [parsed];
+    });
+}
+
+function parseRecord<T>(raw: unknown, parse: (entry: RawProgress) => T | null): { [key: string]: T } {
+    const result: { [key: string]: T } = {};
+    if (!isObject(raw)) return result;
+    for (const [key, entry] of Object.entries(raw)) {
+        const parsed = isObject(entry) ? parse(entry) : null;
+        if (parsed !== null) result[key] = parsed;
+    }
+    return result;
+}
+
+function parseCharacterStats(entry: RawProgress): CharacterStats | null {
+    if (!isFiniteNumber(entry.attempts) || !isFiniteNumber(entry.correct)) return null;
+    return { attempts: entry.attempts, correct: entry.correct, lastPracticed: orNull(entry.lastPracticed) };
+}
+
+function parseSession(entry: RawProgress): SessionRecord | null {
+    const { id, mode, startedAt, endedAt, attempts, correct } = entry;
+    if (typeof id !== 'string' || !isMode(mode)) return null;
+    if (!isFiniteNumber(startedAt) || !isFiniteNumber(endedAt) || !isFiniteNumber(attempts) || !isFiniteNumber(correct)) return null;
+    return { id, mode, startedAt, endedAt, attempts, correct };
+}
+
+function parseCharacterOutcome(entry: RawProgress): CharacterOutcome | null {
+    if (typeof entry.expected !== 'string') return null;
+    return { expected: entry.expected, given: typeof entry.given === 'string' ? entry.given : null };
+}
+
+function parseAttemptEntry(entry: RawProgress): AttemptLogEntry | null {
+    if (!isFiniteNumber(entry.time) || !isMode(entry.mode) || typeof entry.correct !== 'boolean') return null;
+    if (!Array.isArray(entry.characters)) return null;
+    const characters = parseList(entry.characters, parseCharacterOutcome);
+    if (characters.length !== entry.characters.length) return null;
+    const pressDurations = Array.isArray(entry.pressDurations) && entry.pressDurations.every(isFiniteNumber) ? entry.pressDurations : null;
+    return {
+        time: entry.time,
+        sessionId: typeof entry.sessionId === 'string' ? entry.sessionId : '',
+        mode: entry.mode,
+        prompt: typeof entry.prompt === 'string' ? entry.prompt : '',
+        expected: typeof entry.expected === 'string' ? entry.expected : '',
+        given: typeof entry.given === 'string' ? entry.given : '',
+        correct: entry.correct,
+        responseMs: orNull(entry.responseMs),
+        pressDurations,
+        characters,
+    };
+}
+
+function parseBestSpeed(entry: RawProgress): BestSpeed | null {
+    if (!isFiniteNumber(entry.wpm) || !isFiniteNumber(entry.time)) return null;
+    return { wpm: entry.wpm, cpm: orNull(entry.cpm), time: entry.time };
+}
+
+function parseHighScore(entry: RawProgress): HighScore | null {
+    const { score, level, cleared, bestCombo, difficulty, time } = entry;
+    if (!isFiniteNumber(score) || !isFiniteNumber(level) || !isFiniteNumber(cleared) || !isFiniteNumber(bestCombo) || !isFiniteNumber(time)) return null;
+    if (typeof difficulty !== 'string' || !Object.hasOwn(GAME_DIFFICULTIES, difficulty)) return null;
+    return { score, level, cleared, bestCombo, difficulty: difficulty as GameDifficulty, time };
+}
+
+function parseKochLesson(entry: RawProgress): LearnerProgress['koch'][string] | null {
+    if (!isFiniteNumber(entry.unlockedCount) || entry.unlockedCount < 1) return null;
+    const lesson: LearnerProgress['koch'][string] = { unlockedCount: Math.floor(entry.unlockedCount) };
+    if (isFiniteNumber(entry.masteredCount)) lesson.masteredCount = entry.masteredCount;
+    return lesson;
+}
+
+export function migrateProgress(raw: unknown): LearnerProgress {
+    if (!isObject(raw)) return createEmptyProgress();
+    let data: RawProgress = raw;
+    let version = typeof data.version === 'number' ? data.version : 0;
+    if (version > PROGRESS_SCHEMA_VERSION) {
+        throw new Error(`Progress was saved by a newer version of MorseMuse (schema ${version}).`);
+    }
+    while (version < PROGRESS_SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`No migration from progress schema ${version}.`);
+        data = migrate(data);
+        version = data.version as number;
+    }
+    // Fill any field a partial document is missing and drop malformed entries
+    const empty = createEmptyProgress(0);
+    return {
+        version,
+        characterStats: parseRecord(data.characterStats, parseCharacterStats),
+        sessions: parseList(data.sessions, parseSession).slice(-MAX_SESSIONS),
+        attempts: parseList(data.attempts, parseAttemptEntry).slice(-MAX_ATTEMPT_LOG),
+        bestSpeeds: parseRecord(data.bestSpeeds, parseBestSpeed),
+        highScores: parseList(data.highScores, parseHighScore).slice(0, MAX_HIGH_SCORES),
+        motivation: parseMotivationState(data.motivation),
+        settings: isObject(data.settings) ? data.settings : empty.settings,
+        srs: parseDeck(data.srs),
+        koch: parseRecord(data.koch, parseKochLesson),
+        updatedAt: isFiniteNumber(data.updatedAt) ? data.updatedAt : empty.updatedAt,
+    };
+}
+
+// --- Export / import ---
+
+export function exportProgress(progress: LearnerProgress): string {
+    return JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), progress }, null, 2);
+}
+
+export function importProgress(json: string): LearnerProgress {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isObject(parsed) || parsed.format !== EXPORT_FORMAT || !isObject(parsed.progress)) {
+        throw new Error('The file is not a MorseMuse progress export.');
+    }
+    return migrateProgress(parsed.progress);
+}
+
+// --- Pure updates ---
+
+export interface AttemptRecord {
+    sessionId: string;
+    mode: PracticeMode;
+    symbols: string[]; // Characters the attempt covered; a word attempt counts for each letter
+    correct: boolean;
+    time: number;
+    // Details for the attempt log; without them the log falls back to the symbols
+    prompt?: string;
+    expected?: string;
+    given?: string;
+    responseMs?: number | null;
+    pressDurations?: number[] | null;
+    characters?: CharacterOutcome[];
+    copyWpm?: number | null; // Effective playback speed of a copied prompt, for achievements
+}
+
+export function applyAttempt(progress: LearnerProgress, attempt: AttemptRecord): LearnerProgress {
+    const characterStats = { ...progress.characterStats };
+    for (const symbol of attempt.symbols) {
+        const previous = characterStats[symbol] ?? { attempts: 0, correct: 0, lastPracticed: null };
+        characterStats[symbol] = {
+            attempts: previous.attempts + 1,
+            correct: previous.correct + (attempt.correct ? 1 : 0),
+            lastPracticed: attempt.time,
+        };
+    }
+
+    const existing = progress.sessions.find(s => s.id === attempt.sessionId);
+    const session: SessionRecord = existing
+        ? { ...existing, endedAt: attempt.time, attempts: existing.attempts + 1, correct: existing.correct + (attempt.correct ? 1 : 0) }
+        : { id: attempt.sessionId, mode: attempt.mode, startedAt: attempt.time, endedAt: attempt.time, attempts: 1, correct: attempt.correct ? 1 : 0 };
+    const sessions = existing
+        ? progress.sessions.map(s => (s.id === session.id ? session : s))
+        : [...progress.sessions, session].slice(-MAX_SESSIONS);
+
+    const entry: AttemptLogEntry = {
+        time: attempt.time,
+        sessionId: attempt.sessionId,
+        mode: attempt.mode,
+        prompt: attempt.prompt ?? attempt.symbols.join(''),
+        expected: attempt.expected ?? attempt.symbols.join(''),
+        given: attempt.given ?? '',
+        correct: attempt.correct,
+        responseMs: attempt.responseMs ?? null,
+        pressDurations: attempt.pressDurations?.length ? attempt.pressDurations : null,
+        characters: attempt.characters ?? attempt.symbols.map(symbol => ({ expected: symbol, given: attempt.correct ? symbol : null })),
+    };
+    const attempts = [...progress.attempts, entry].slice(-MAX_ATTEMPT_LOG);
+
+    const { state: motivation } = recordPracticeEvent(progress.motivation, {
+        type: 'attempt',
+        time: attempt.time,
+        mode: attempt.mode,
+        correct: attempt.correct,
+        responseMs: attempt.responseMs,
+        copyWpm: attempt.copyWpm,
+    });
+
+    return { ...progress, characterStats, sessions, attempts, motivation, updatedAt: attempt.time };
+}
+
+// Milestones that are not attempts, e.g. finishing the Koch lesson
+export function applyPracticeEvent(progress: LearnerProgress, event: PracticeEvent): LearnerProgress {
+    return { ...progress, motivation: recordPracticeEvent(progress.motivation, event).state, updatedAt: event.time };
+}
+
+// Keeps the faster of the stored and the new speed for a drill mode
+export function applyBestSpeed(progress: LearnerProgress, mode: DrillMode, speed: BestSpeed): LearnerProgress {
+    const previous = progress.bestSpeeds[mode];
+    if (previous && previous.wpm >= speed.wpm) return progress;
+    return { ...progress, bestSpeeds: { ...progress.bestSpeeds, [mode]: speed }, updatedAt: speed.time };
+}
+
+// Adds a finished game to the high-score table if it makes the cut
+export function applyHighScore(progress: LearnerProgress, entry: HighScore): LearnerProgress {
+    if (entry.score <= 0) return progress;
+    const highScores = [...progress.highScores, entry]
+        .sort((a, b) => b.score - a.score || a.time - b.time)
+        .slice(0, MAX_HIGH_SCORES);
+    if (!highScores.includes(entry)) return progress;
+    return { ...progress, highScores, updatedAt: entry.time };
+}
+
+export function createSessionId(now: number = Date.now()): string {
+    return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// --- Repositories ---
+
+const DEFAULT_KEY = 'morsemuse:progress';
+
+export function createMemoryRepository(initial?: LearnerProgress): ProgressRepository {
+    let stored: LearnerProgress | null = initial ?? null;
+    return {
+        load: async () => migrateProgress(stored ?? createEmptyProgress()),
+        save: async progress => {
+            stored = progress;
+        },
+        clear: async () => {
+            stored = null;
+        },
+    };
+}
+
+export function createLocalStorageRepository(storage: Storage, key: string = DEFAULT_KEY): ProgressRepository {
+    return {
+        async load() {
+            const raw = storage.getItem(key);
+            if (!raw) return createEmptyProgress();
+            try {
+                return migrateProgress(JSON.parse(raw));
+            } catch (error) {
+                console.error('Stored progress could not be read, starting fresh:', error);
+                return createEmptyProgress();
+            }
+        },
+        async save(progress) {
+            storage.setItem(key, JSON.stringify(progress));
+        },
+        async clear() {
+            storage.removeItem(key);
+        },
+    };
+}
+
+// Promise wrapper for a single IndexedDB request
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function createIndexedDbRepository(factory: IDBFactory, dbName = 'morsemuse', key: string = DEFAULT_KEY): ProgressRepository {
+    const STORE = 'progress';
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDb = () => {
+        if (!dbPromise) {
+            const request = factory.open(dbName, 1);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE)) request.result.createObjectStore(STORE);
+            };
+            dbPromise = requestToPromise(request);
+        }
+        return dbPromise;
+    };
+
+    const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const db = await openDb();
+        return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+    };
+
+    return {
+        async load() {
+            const raw = await withStore('readonly', store => store.get(key));
+            return raw ? migrateProgress(raw) : createEmptyProgress();
+        },
+        async save(progress) {
+            await withStore('readwrite', store => store.put(progress, key));
+        },
+        async clear() {
+            await withStore('readwrite', store => store.delete(key));
+        },
+    };
+}
+
+// Uses `fallback` for good once `primary` fails (e.g. IndexedDB blocked in private browsing)
+function withFallback(primary: ProgressRepository, fallback: ProgressRepository): ProgressRepository {
+    let active = primary;
+    const attempt = async <T>(run: (repo: ProgressRepository) => Promise<T>) => {
+        try {
+            return await run(active);
+        } catch (error) {
+            if (active === fallback) throw error;
+            console.error('Progress storage failed, falling back:', error);
+            active = fallback;
+            return run(active);
+        }
+    };
+    return {
+        load: () => attempt(repo => repo.load()),
+        save: progress => attempt(repo => repo.save(progress)),
+        clear: () => attempt(repo => repo.clear()),
+    };
+}
+
+let browserRepository: ProgressRepository | null = null;
+
+// Best storage the current environment offers; memory only during SSR
+export function getProgressRepository(): ProgressRepository {
+    if (typeof window === 'undefined') return createMemoryRepository();
+    if (!browserRepository) {
+        const fallback = window.localStorage ? createLocalStorageRepository(window.localStorage) : createMemoryRepository();
+        browserRepository = window.indexedDB ? withFallback(createIndexedDbRepository(window.indexedDB), fallback) : fallback;
+    }
+    return browserRepository;
+}
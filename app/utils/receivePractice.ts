@@ -0,0 +1,67 @@
+import { alignSequences, scoreAlignment, type AlignedPair, type AlignmentScore } from './sequenceAlignment';
+
+// Copy (receive) practice: prompts are played as audio and the learner types
+// what they heard. Generators here build the prompts; words come from the word
+// providers through the /learn/words loader instead.
+
+export type ReceiveContentKind = 'characters' | 'groups' | 'words' | 'callsigns';
+
+export const GROUP_SIZE = 5; // Classic five-character code groups
+
+// Replays allowed after the first play; null means unlimited
+export const REPLAY_LIMIT_OPTIONS: (number | null)[] = [0, 1, 2, 3, null];
+
+function pick<T>(items: T[], random: () => number): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+export function generateCharacter(characters: string[], random: () => number = Math.random): string {
+    return pick(characters, random);
+}
+
+export function generateGroup(characters: string[], random: () => number = Math.random, size = GROUP_SIZE): string {
+    return Array.from({ length: size }, () => pick(characters, random)).join('');
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const DIGITS = '0123456789'.split('');
+
+// Prefix shapes, L = letter and D = digit: one letter (W, G), two letters (DL, VK) or digit + letter (9A, 2E)
+const PREFIX_PATTERNS = ['L', 'LL', 'LL', 'DL'];
+const SUFFIX_LENGTHS = [1, 2, 2, 3, 3];
+const PORTABLE_CHANCE = 0.1; // Occasionally "/P" as heard on the air
+
+// Callsign-style string, e.g. W1AW, DL2ABC, 9A3XY, G4ABC/P. Pass portable: false
+// for code tables without '/'.
+export function generateCallsign(random: () => number = Math.random, { portable = true }: { portable?: boolean } = {}): string {
+    const prefix = Array.from(pick(PREFIX_PATTERNS, random))
+        .map(slot => (slot === 'L' ? pick(LETTERS, random) : pick(DIGITS.slice(1), random)))
+        .join('');
+    const suffix = Array.from({ length: pick(SUFFIX_LENGTHS, random) }, () => pick(LETTERS, random)).join('');
+    const callsign = `${prefix}${pick(DIGITS, random)}${suffix}`;
+    return portable && random() < PORTABLE_CHANCE ? `${callsign}/P` : callsign;
+}
+
+// --- Scoring ---
+
+export interface CopyResult {
+    expected: string;
+    given: string;
+    pairs: AlignedPair<string>[];
+    score: AlignmentScore;
+    correct: boolean;
+}
+
+// Upper case with runs of whitespace collapsed, so spacing slips are not counted
+export function normalizeCopy(text: string): string {
+    return text.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+// Character-by-character score of what the learner typed against what was sent
+export function scoreCopy(expected: string, given: string): CopyResult {
+    const normalizedExpected = normalizeCopy(expected);
+    const normalizedGiven = normalizeCopy(given);
+    const pairs = alignSequences(Array.from(normalizedExpected), Array.from(normalizedGiven));
+    const score = scoreAlignment(pairs);
+    return { expected: normalizedExpected, given: normalizedGiven, pairs, score, correct: score.distance === 0 };
+}
@@ -0,0 +1,99 @@
+// Edit-distance alignment of two sequences (Levenshtein, with backtrace).
+// Generic over the item type so it can align typed characters, Morse letters
+// or single dit/dah elements. The result pairs every expected item with what
+// the learner gave, so feedback can point at the exact position that went wrong.
+
+export type AlignmentOp = 'match' | 'substitute' | 'insert' | 'delete';
+
+export interface AlignedPair<T> {
+    op: AlignmentOp; // 'insert': extra item from the learner, 'delete': expected item missing
+    expected: T | null;
+    actual: T | null;
+    expectedIndex: number | null;
+    actualIndex: number | null;
+}
+
+export interface AlignmentCosts<T = unknown> {
+    // A function prices each pair, e.g. to make some substitutions dearer than a delete plus an insert
+    substitute: number | ((expected: T, actual: T) => number);
+    insert: number;
+    delete: number;
+}
+
+export const DEFAULT_ALIGNMENT_COSTS: AlignmentCosts = { substitute: 1, insert: 1, delete: 1 };
+
+export function alignSequences<T>(
+    expected: T[],
+    actual: T[],
+    equals: (a: T, b: T) => boolean = (a, b) => a === b,
+    costs: AlignmentCosts<T> = DEFAULT_ALIGNMENT_COSTS,
+): AlignedPair<T>[] {
+    const { substitute } = costs;
+    const stepCost = (a: T, b: T) => (equals(a, b) ? 0 : typeof substitute === 'number' ? substitute : substitute(a, b));
+    const rows = expected.length + 1;
+    const cols = actual.length + 1;
+    // dist[i][j]: cost of aligning expected[0..i) with actual[0..j)
+    const dist: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+    for (let i = 1; i < rows; i++) dist[i][0] = i * costs.delete;
+    for (let j = 1; j < cols; j++) dist[0][j] = j * costs.insert;
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            dist[i][j] = Math.min(
+                dist[i - 1][j - 1] + stepCost(expected[i - 1], actual[j - 1]),
+                dist[i - 1][j] + costs.delete,
+                dist[i][j - 1] + costs.insert,
+            );
+        }
+    }
+
+    // Backtrace from the end; ties prefer match/substitute so pairs stay lined up
+    const pairs: AlignedPair<T>[] = [];
+    let i = expected.length;
+    let j = actual.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0) {
+            const same = equals(expected[i - 1], actual[j - 1]);
+            if (dist[i][j] === dist[i - 1][j - 1] + stepCost(expected[i - 1], actual[j - 1])) {
+                pairs.push({ op: same ? 'match' : 'substitute', expected: expected[i - 1], actual: actual[j - 1], expectedIndex: i - 1, actualIndex: j - 1 });
+                i--;
+                j--;
+                continue;
+            }
+        }
+        if (i > 0 && dist[i][j] === dist[i - 1][j] + costs.delete) {
+            pairs.push({ op: 'delete', expected: expected[i - 1], actual: null, expectedIndex: i - 1, actualIndex: null });
+            i--;
+        } else {
+            pairs.push({ op: 'insert', expected: null, actual: actual[j - 1], expectedIndex: null, actualIndex: j - 1 });
+            j--;
+        }
+    }
+    return pairs.reverse();
+}
+
+export interface AlignmentScore {
+    matches: number;
+    substitutions: number;
+    insertions: number;
+    deletions: number;
+    distance: number; // Unit-cost edit distance
+    accuracy: number; // matches / expected length, 1 for an empty expectation answered with nothing
+}
+
+export function scoreAlignment<T>(pairs: AlignedPair<T>[]): AlignmentScore {
+    const count = (op: AlignmentOp) => pairs.filter(pair => pair.op === op).length;
+    const matches = count('match');
+    const substitutions = count('substitute');
+    const insertions = count('insert');
+    const deletions = count('delete');
+    const expectedLength = matches + substitutions + deletions;
+    return {
+        matches,
+        substitutions,
+        insertions,
+        deletions,
+        distance: substitutions + insertions + deletions,
+        accuracy: expectedLength === 0 ? (insertions === 0 ? 1 : 0) : matches / expectedLength,
+    };
+}
@@ -0,0 +1,139 @@
+import { DEFAULT_CODE_TABLE_ID, getCodeTable, getSymbols, isCodeTableId, type CodeTableId } from './morseAlphabet';
+import type { InputMode } from './keyBindings';
+import type { IambicMode } from './keyer';
+import type { AudioOptions } from './morseAudio';
+
+// App-wide settings model. Shared by the server (cookie session, loaders) and
+// the client (settings page, learner progress), so it must stay free of DOM code.
+
+export type LessonOrderId = 'lcwo' | 'alphabetical' | 'custom';
+export type ThemeId = 'system' | 'light' | 'dark';
+export type PlaybackOutput = 'sound' | 'light' | 'both' | 'vibration'; // How played Morse reaches the learner
+
+export interface AppSettings {
+    characterWpm: number;
+    effectiveWpm: number; // Farnsworth speed, never above characterWpm
+    tonePitch: number; // Hz
+    volume: number; // 0..1
+    playbackOutput: PlaybackOutput;
+    hapticSidetone: boolean; // Vibrate while the key is held, on devices that can
+    inputMode: InputMode;
+    iambicMode: IambicMode;
+    keyingWpm: number | null; // Fixed keying speed for MorseInput; null = adaptive
+    codeTable: CodeTableId;
+    lessonOrder: LessonOrderId;
+    customLessonOrder: string; // Characters in order, used when lessonOrder is 'custom'
+    wordMinLength: number;
+    wordMaxLength: number;
+    theme: ThemeId;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    characterWpm: 20,
+    effectiveWpm: 10,
+    tonePitch: 600,
+    volume: 0.5,
+    playbackOutput: 'sound',
+    hapticSidetone: false,
+    inputMode: 'tap',
+    iambicMode: 'B',
+    keyingWpm: null,
+    codeTable: DEFAULT_CODE_TABLE_ID,
+    lessonOrder: 'lcwo',
+    customLessonOrder: '',
+    wordMinLength: 4,
+    wordMaxLength: 8,
+    theme: 'system',
+};
+
+// Allowed ranges, also used for the form inputs
+export const SETTINGS_LIMITS = {
+    characterWpm: { min: 5, max: 50 },
+    effectiveWpm: { min: 2, max: 50 },
+    tonePitch: { min: 300, max: 1200 },
+    volume: { min: 0, max: 1 },
+    keyingWpm: { min: 3, max: 40 },
+    wordLength: { min: 2, max: 12 },
+} as const;
+
+const INPUT_MODES: InputMode[] = ['tap', 'straight', 'paddle'];
+const IAMBIC_MODES: IambicMode[] = ['A', 'B'];
+const LESSON_ORDERS: LessonOrderId[] = ['lcwo', 'alphabetical', 'custom'];
+const THEMES: ThemeId[] = ['system', 'light', 'dark'];
+const PLAYBACK_OUTPUTS: PlaybackOutput[] = ['sound', 'light', 'both', 'vibration'];
+
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+};
+
+const clampNumber = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) => {
+    const parsed = toNumber(value);
+    return parsed === null ? fallback : Math.min(max, Math.max(min, parsed));
+};
+
+// Checkboxes post 'on' and are left out when unchecked
+const toBoolean = (value: unknown, fallback: boolean): boolean => {
+    if (value === true || value === 'on' || value === 'true') return true;
+    if (value === false || value === 'off' || value === 'false') return false;
+    return fallback;
+};
+
+const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+    allowed.includes(value as T) ? (value as T) : fallback;
+
+// Turns anything (cookie data, form fields, imported JSON) into valid settings;
+// unknown or out-of-range values fall back to the defaults
+export function parseSettings(raw: unknown): AppSettings {
+    const input = typeof raw === 'object' && raw !== null ? (raw as { [key: string]: unknown }) : {};
+    const d = DEFAULT_SETTINGS;
+
+    const characterWpm = clampNumber(input.characterWpm, SETTINGS_LIMITS.characterWpm, d.characterWpm);
+    const effectiveWpm = Math.min(characterWpm, clampNumber(input.effectiveWpm, SETTINGS_LIMITS.effectiveWpm, d.effectiveWpm));
+    const wordMinLength = Math.round(clampNumber(input.wordMinLength, SETTINGS_LIMITS.wordLength, d.wordMinLength));
+    const wordMaxLength = Math.max(wordMinLength, Math.round(clampNumber(input.wordMaxLength, SETTINGS_LIMITS.wordLength, d.wordMaxLength)));
+    const keyingWpm = input.keyingWpm === null || input.keyingWpm === '' || input.keyingWpm === undefined
+        ? null
+        : clampNumber(input.keyingWpm, SETTINGS_LIMITS.keyingWpm, 0) || null;
+
+    return {
+        characterWpm,
+        effectiveWpm,
+        tonePitch: Math.round(clampNumber(input.tonePitch, SETTINGS_LIMITS.tonePitch, d.tonePitch)),
+        volume: clampNumber(input.volume, SETTINGS_LIMITS.volume, d.volume),
+        playbackOutput: oneOf(input.playbackOutput, PLAYBACK_OUTPUTS, d.playbackOutput),
+        hapticSidetone: toBoolean(input.hapticSidetone, d.hapticSidetone),
+        inputMode: oneOf(input.inputMode, INPUT_MODES, d.inputMode),
+        iambicMode: oneOf(input.iambicMode, IAMBIC_MODES, d.iambicMode),
+        keyingWpm,
+        codeTable: isCodeTableId(input.codeTable) ? input.codeTable : d.codeTable,
+        lessonOrder: oneOf(input.lessonOrder, LESSON_ORDERS, d.lessonOrder),
+        customLessonOrder: typeof input.customLessonOrder === 'string' ? input.customLessonOrder.toUpperCase().replace(/\s+/g, '').slice(0, 100) : d.customLessonOrder,
+        wordMinLength,
+        wordMaxLength,
+        theme: oneOf(input.theme, THEMES, d.theme),
+    };
+}
+
+export function settingsToAudioOptions(settings: AppSettings): Partial<AudioOptions> {
+    return {
+        wpm: settings.characterWpm,
+        farnsworthWpm: settings.effectiveWpm,
+        frequency: settings.tonePitch,
+        volume: settings.volume,
+    };
+}
+
+// Lesson order override for LearningInterface, undefined means "table default"
+export function settingsToLessonOrder(settings: AppSettings): string[] | undefined {
+    if (settings.lessonOrder === 'custom' && settings.customLessonOrder) return Array.from(settings.customLessonOrder);
+    if (settings.lessonOrder === 'alphabetical') {
+        const table = getCodeTable(settings.codeTable);
+        return [...getSymbols(table, 'letter'), ...getSymbols(table, 'digit')].map(s => s.symbol);
+    }
+    return undefined;
+}
@@ -0,0 +1,147 @@
+import { getCodeMap, getCodeTable, type CodeTable } from './morseAlphabet';
+import { LETTER_GAP_UNITS, PARIS_UNITS } from './morseTiming';
+
+// Timed drills ("as many characters as you can in 60 seconds") and the speed
+// ladder, which raises the playback speed after a run of correct answers and
+// lowers it after misses. Pure state and scoring; the /drills route plays the
+// prompts, takes the answers and keeps the best speeds in learner progress.
+
+export const DRILL_DURATIONS = [30, 60, 120]; // Seconds
+
+export interface DrillRate {
+    cpm: number; // Correct characters per minute
+    wpm: number; // PARIS words per minute: the dit units of those characters over 50
+}
+
+// Length of a character followed by a letter gap, in dit units, as in the PARIS count
+export function characterUnits(symbol: string, table: CodeTable = getCodeTable()): number {
+    const code = getCodeMap(table)[symbol];
+    if (!code) return 0;
+    let units = 0;
+    let needsGap = false;
+    for (const element of code) {
+        if (element in table.gaps) {
+            units += table.gaps[element];
+            needsGap = false;
+            continue;
+        }
+        const elementUnits = table.elementUnits[element];
+        if (elementUnits === undefined) continue;
+        units += elementUnits + (needsGap ? 1 : 0);
+        needsGap = true;
+    }
+    return units + LETTER_GAP_UNITS;
+}
+
+export function drillRate(characters: string[], elapsedMs: number, table: CodeTable = getCodeTable()): DrillRate {
+    const minutes = elapsedMs / 60000;
+    if (minutes <= 0) return { cpm: 0, wpm: 0 };
+    const units = characters.reduce((sum, symbol) => sum + characterUnits(symbol, table), 0);
+    return { cpm: characters.length / minutes, wpm: units / PARIS_UNITS / minutes };
+}
+
+// --- Timed drills ---
+
+export interface TimedDrill {
+    durationMs: number;
+    startedAt: number | null; // null until the first prompt
+    correct: string[]; // Characters answered correctly, in order
+    attempts: number;
+}
+
+export interface TimedDrillResult extends DrillRate {
+    correct: number;
+    attempts: number;
+    accuracy: number; // 0..1
+}
+
+export function createTimedDrill(durationSeconds: number): TimedDrill {
+    return { durationMs: durationSeconds * 1000, startedAt: null, correct: [], attempts: 0 };
+}
+
+export function startTimedDrill(drill: TimedDrill, now: number): TimedDrill {
+    return { ...drill, startedAt: now, correct: [], attempts: 0 };
+}
+
+export function getTimeLeftMs(drill: TimedDrill, now: number): number {
+    if (drill.startedAt === null) return drill.durationMs;
+    return Math.max(0, drill.startedAt + drill.durationMs - now);
+}
+
+export function isDrillOver(drill: TimedDrill, now: number): boolean {
+    return drill.startedAt !== null && getTimeLeftMs(drill, now) === 0;
+}
+
+// Answers after the time is up do not count
+export function recordDrillAnswer(drill: TimedDrill, expected: string, correct: boolean, now: number): TimedDrill {
+    if (drill.startedAt === null || isDrillOver(drill, now)) return drill;
+    return {
+        ...drill,
+        correct: correct ? [...drill.correct, expected] : drill.correct,
+        attempts: drill.attempts + 1,
+    };
+}
+
+// Rates are over the whole drill length, so stopping early does not inflate them
+export function getTimedDrillResult(drill: TimedDrill, table: CodeTable = getCodeTable()): TimedDrillResult {
+    return {
+        ...drillRate(drill.correct, drill.durationMs, table),
+        correct: drill.correct.length,
+        attempts: drill.attempts,
+        accuracy: drill.attempts > 0 ? drill.correct.length / drill.attempts : 0,
+    };
+}
+
+// --- Speed ladder ---
+
+export interface LadderOptions {
+    startWpm: number;
+    minWpm: number;
+    maxWpm: number;
+    step: number; // WPM added or taken off per rung
+    promoteAfter: number; // Correct answers in a row to move up
+    demoteAfter: number; // Misses in a row to move down
+}
+
+export const DEFAULT_LADDER_OPTIONS: LadderOptions = {
+    startWpm: 15,
+    minWpm: 5,
+    maxWpm: 50,
+    step: 2,
+    promoteAfter: 5,
+    demoteAfter: 2,
+};
+
+export interface SpeedLadder {
+    wpm: number; // Current playback speed
+    streak: number; // Correct answers in a row at this speed
+    misses: number; // Misses in a row at this speed
+    bestWpm: number | null; // Fastest rung cleared, i.e. moved up from
+    answered: number;
+    correct: number;
+}
+
+export type LadderChange = 'up' | 'down' | null;
+
+export function createLadder(options: Partial<LadderOptions> = {}): SpeedLadder {
+    const { startWpm, minWpm, maxWpm } = { ...DEFAULT_LADDER_OPTIONS, ...options };
+    return { wpm: Math.min(maxWpm, Math.max(minWpm, startWpm)), streak: 0, misses: 0, bestWpm: null, answered: 0, correct: 0 };
+}
+
+export function stepLadder(ladder: SpeedLadder, correct: boolean, options: Partial<LadderOptions> = {}): { ladder: SpeedLadder; change: LadderChange } {
+    const { minWpm, maxWpm, step, promoteAfter, demoteAfter } = { ...DEFAULT_LADDER_OPTIONS, ...options };
+    const counted = { ...ladder, answered: ladder.answered + 1, correct: ladder.correct + (correct ? 1 : 0) };
+
+    if (correct) {
+        const streak = ladder.streak + 1;
+        if (streak < promoteAfter) return { ladder: { ...counted, streak, misses: 0 }, change: null };
+        const bestWpm = Math.max(ladder.bestWpm ?? 0, ladder.wpm);
+        const wpm = Math.min(maxWpm, ladder.wpm + step);
+        return { ladder: { ...counted, wpm, streak: 0, misses: 0, bestWpm }, change: wpm > ladder.wpm ? 'up' : null };
+    }
+
+    const misses = ladder.misses + 1;
+    if (misses < demoteAfter) return { ladder: { ...counted, streak: 0, misses }, change: null };
+    const wpm = Math.max(minWpm, ladder.wpm - step);
+    return { ladder: { ...counted, wpm, streak: 0, misses: 0 }, change: wpm < ladder.wpm ? 'down' : null };
+}
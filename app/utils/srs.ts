@@ -0,0 +1,190 @@
+// Spaced-repetition scheduler (SM-2 variant) for characters and words.
+// Each card keeps an ease factor, an interval and a due date. A review is graded
+// from correctness, response latency and whether a hint was used, and the next
+// prompt is chosen from whatever is due.
+
+export type SrsItemKind = 'character' | 'word';
+
+export interface SrsCard {
+    id: string;
+    kind: SrsItemKind;
+    value: string;
+    ease: number;
+    interval: number; // ms until the next review after the last one
+    repetitions: number; // Successful reviews in a row
+    lapses: number;
+    due: number; // Epoch ms
+    lastReviewed: number | null;
+}
+
+export interface SrsDeck {
+    cards: { [id: string]: SrsCard };
+}
+
+export interface SrsReview {
+    correct: boolean;
+    latencyMs: number;
+    hinted: boolean;
+    time: number; // Epoch ms of the answer
+}
+
+export interface SrsOptions {
+    initialEase: number;
+    minEase: number;
+    firstInterval: number; // ms, after the first successful review
+    secondInterval: number; // ms, after the second
+    relearnInterval: number; // ms, after a lapse
+    targetLatencyMs: number; // Answers at or under this are "easy"
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const DEFAULT_SRS_OPTIONS: SrsOptions = {
+    initialEase: 2.5,
+    minEase: 1.3,
+    firstInterval: 10 * MINUTE,
+    secondInterval: DAY,
+    relearnInterval: MINUTE,
+    targetLatencyMs: 3000,
+};
+
+export type SrsQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export function cardId(kind: SrsItemKind, value: string): string {
+    return `${kind}:${value}`;
+}
+
+export function createDeck(): SrsDeck {
+    return { cards: {} };
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Turns stored or imported data into a deck; cards with a missing or malformed field are dropped
+export function parseDeck(raw: unknown): SrsDeck {
+    const cards: SrsDeck['cards'] = {};
+    const input = typeof raw === 'object' && raw !== null ? (raw as { cards?: unknown }).cards : null;
+    if (typeof input !== 'object' || input === null) return createDeck();
+    for (const value of Object.values(input)) {
+        if (typeof value !== 'object' || value === null) continue;
+        const card = value as { [key: string]: unknown };
+        if (card.kind !== 'character' && card.kind !== 'word') continue;
+        if (typeof card.value !== 'string' || !card.value) continue;
+        if (![card.ease, card.interval, card.repetitions, card.lapses, card.due].every(isFiniteNumber)) continue;
+        const id = cardId(card.kind, card.value);
+        cards[id] = {
+            id,
+            kind: card.kind,
+            value: card.value,
+            ease: card.ease as number,
+            interval: card.interval as number,
+            repetitions: card.repetitions as number,
+            lapses: card.lapses as number,
+            due: card.due as number,
+            lastReviewed: isFiniteNumber(card.lastReviewed) ? card.lastReviewed : null,
+        };
+    }
+    return { cards };
+}
+
+export function createCard(kind: SrsItemKind, value: string, now: number, options: SrsOptions = DEFAULT_SRS_OPTIONS): SrsCard {
+    return {
+        id: cardId(kind, value),
+        kind,
+        value,
+        ease: options.initialEase,
+        interval: 0,
+        repetitions: 0,
+        lapses: 0,
+        due: now,
+        lastReviewed: null,
+    };
+}
+
+// Adds cards for values the deck has not seen yet; existing cards are kept as they are
+export function ensureCards(deck: SrsDeck, kind: SrsItemKind, values: string[], now: number, options: SrsOptions = DEFAULT_SRS_OPTIONS): SrsDeck {
+    const missing = values.filter(value => !deck.cards[cardId(kind, value)]);
+    if (missing.length === 0) return deck;
+    const cards = { ...deck.cards };
+    for (const value of missing) cards[cardId(kind, value)] = createCard(kind, value, now, options);
+    return { ...deck, cards };
+}
+
+// Maps a review onto the SM-2 0-5 quality scale
+export function gradeReview(review: SrsReview, options: SrsOptions = DEFAULT_SRS_OPTIONS): SrsQuality {
+    if (!review.correct) return review.hinted ? 0 : 1;
+    if (review.hinted) return 2; // Right only with help still counts as a lapse
+    if (review.latencyMs <= options.targetLatencyMs) return 5;
+    if (review.latencyMs <= options.targetLatencyMs * 2) return 4;
+    return 3;
+}
+
+export function reviewCard(card: SrsCard, review: SrsReview, options: SrsOptions = DEFAULT_SRS_OPTIONS): SrsCard {
+    const quality = gradeReview(review, options);
+    const ease = Math.max(options.minEase, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    if (quality < 3) {
+        return {
+            ...card,
+            ease,
+            repetitions: 0,
+            lapses: card.lapses + 1,
+            interval: options.relearnInterval,
+            due: review.time + options.relearnInterval,
+            lastReviewed: review.time,
+        };
+    }
+
+    const repetitions = card.repetitions + 1;
+    const interval = repetitions === 1
+        ? options.firstInterval
+        : repetitions === 2
+            ? options.secondInterval
+            : Math.round(card.interval * ease);
+    return { ...card, ease, repetitions, interval, due: review.time + interval, lastReviewed: review.time };
+}
+
+export function recordReview(deck: SrsDeck, kind: SrsItemKind, value: string, review: SrsReview, options: SrsOptions = DEFAULT_SRS_OPTIONS): SrsDeck {
+    const existing = deck.cards[cardId(kind, value)] ?? createCard(kind, value, review.time, options);
+    const updated = reviewCard(existing, review, options);
+    return { ...deck, cards: { ...deck.cards, [updated.id]: updated } };
+}
+
+export interface PickOptions {
+    kind: SrsItemKind;
+    now: number;
+    candidates?: string[]; // Restrict to these values (e.g. unlocked characters)
+    exclude?: string; // Avoid repeating the previous prompt when there is a choice
+    includeNotDue?: boolean; // Fall back to practising ahead of schedule, default true
+    random?: () => number;
+}
+
+// Next value to prompt: overdue cards first (most overdue, then hardest), then
+// new cards in candidate order, then optionally a card from the ones due soonest
+export function pickNext(deck: SrsDeck, { kind, now, candidates, exclude, includeNotDue = true, random = Math.random }: PickOptions): string | null {
+    const pool = (candidates ?? Object.values(deck.cards).filter(c => c.kind === kind).map(c => c.value))
+        .filter((value, index, all) => all.indexOf(value) === index);
+    const choices = pool.length > 1 && exclude !== undefined ? pool.filter(value => value !== exclude) : pool;
+    if (choices.length === 0) return null;
+
+    const cards = choices.map(value => deck.cards[cardId(kind, value)]);
+    const seen = cards.filter((card): card is SrsCard => !!card && card.lastReviewed !== null);
+
+    const due = seen
+        .filter(card => card.due <= now)
+        .sort((a, b) => a.due - b.due || a.ease - b.ease);
+    if (due.length > 0) return due[0].value;
+
+    const fresh = choices.find((_, index) => !cards[index] || cards[index].lastReviewed === null);
+    if (fresh !== undefined) return fresh;
+
+    if (!includeNotDue) return null;
+    // Nothing due: practise one of the three soonest, at random so prompts do not become a fixed cycle
+    const soonest = [...seen].sort((a, b) => a.due - b.due).slice(0, 3);
+    return soonest[Math.floor(random() * soonest.length)].value;
+}
+
+export function countDue(deck: SrsDeck, kind: SrsItemKind, now: number): number {
+    return Object.values(deck.cards).filter(card => card.kind === kind && card.lastReviewed !== null && card.due <= now).length;
+}
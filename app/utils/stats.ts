@@ -0,0 +1,218 @@
+import { getSymbolMap, type CodeTable } from './morseAlphabet';
+import type { MorseDiff } from './morseDiff';
+import type { CopyResult } from './receivePractice';
+import type { AttemptLogEntry, CharacterOutcome, PracticeMode } from './progressStore';
+
+// Roll-ups of the attempt log for the stats dashboard. Everything here is a
+// pure function of the log, so the charts can be recomputed for any slice of it
+// (one mode, the last week, ...).
+
+// --- Building outcomes at record time ---
+
+// Sending modes: decode what was keyed for each expected letter
+export function outcomesFromDiff(diff: MorseDiff, table: CodeTable): CharacterOutcome[] {
+    const symbolMap = getSymbolMap(table);
+    return diff.letters.map(letter => ({
+        expected: letter.label ?? symbolMap[letter.expected] ?? '?',
+        given: letter.given ? symbolMap[letter.given] ?? '?' : null,
+    }));
+}
+
+// Copy mode: the typed character lined up with each sent one; word gaps are skipped
+export function outcomesFromCopy(result: CopyResult): CharacterOutcome[] {
+    return result.pairs
+        .filter(pair => pair.expected !== null && pair.expected !== ' ')
+        .map(pair => ({ expected: pair.expected!, given: pair.actual }));
+}
+
+// --- Filtering ---
+
+export interface StatsFilter {
+    mode?: PracticeMode;
+    since?: number;
+}
+
+export function filterAttempts(entries: AttemptLogEntry[], { mode, since }: StatsFilter = {}): AttemptLogEntry[] {
+    return entries.filter(entry => (!mode || entry.mode === mode) && (since === undefined || entry.time >= since));
+}
+
+// --- Per-character accuracy ---
+
+export interface CharacterAccuracy {
+    symbol: string;
+    attempts: number;
+    correct: number;
+    accuracy: number;
+    meanResponseMs: number | null; // Response time shared out over the attempt's characters
+}
+
+// Weakest first, ties by symbol
+export function getCharacterAccuracy(entries: AttemptLogEntry[]): CharacterAccuracy[] {
+    const totals: { [symbol: string]: { attempts: number; correct: number; responseMs: number; timed: number } } = {};
+    for (const entry of entries) {
+        const share = entry.responseMs !== null && entry.characters.length > 0 ? entry.responseMs / entry.characters.length : null;
+        for (const outcome of entry.characters) {
+            const total = (totals[outcome.expected] ??= { attempts: 0, correct: 0, responseMs: 0, timed: 0 });
+            total.attempts++;
+            if (outcome.given === outcome.expected) total.correct++;
+            if (share !== null) {
+                total.responseMs += share;
+                total.timed++;
+            }
+        }
+    }
+    return Object.entries(totals)
+        .map(([symbol, total]) => ({
+            symbol,
+            attempts: total.attempts,
+            correct: total.correct,
+            accuracy: total.correct / total.attempts,
+            meanResponseMs: total.timed > 0 ? total.responseMs / total.timed : null,
+        }))
+        .sort((a, b) => a.accuracy - b.accuracy || a.symbol.localeCompare(b.symbol));
+}
+
+// --- Confusion matrix ---
+
+export interface ConfusionMatrix {
+    expected: string[]; // Rows: characters that were mistaken at least once
+    given: string[]; // Columns: what was given instead
+    counts: { [expected: string]: { [given: string]: number } };
+    max: number; // Largest single count, for shading
+}
+
+// Only mistakes with a known answer; missed characters have nothing to confuse them with
+export function getConfusionMatrix(entries: AttemptLogEntry[]): ConfusionMatrix {
+    const counts: ConfusionMatrix['counts'] = {};
+    const givenSet = new Set<string>();
+    let max = 0;
+    for (const entry of entries) {
+        for (const { expected, given } of entry.characters) {
+            if (given === null || given === expected) continue;
+            const row = (counts[expected] ??= {});
+            row[given] = (row[given] ?? 0) + 1;
+            max = Math.max(max, row[given]);
+            givenSet.add(given);
+        }
+    }
+    const byName = (a: string, b: string) => a.localeCompare(b);
+    return { expected: Object.keys(counts).sort(byName), given: [...givenSet].sort(byName), counts, max };
+}
+
+// Most frequent confusions first, e.g. [{ expected: 'U', given: 'V', count: 4 }]
+export function getTopConfusions(matrix: ConfusionMatrix, limit = 5): { expected: string; given: string; count: number }[] {
+    return Object.entries(matrix.counts)
+        .flatMap(([expected, row]) => Object.entries(row).map(([given, count]) => ({ expected, given, count })))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit);
+}
+
+// --- Speed over time ---
+
+// Sending speed from key-down times: the dit is the median of presses no longer
+// than twice the shortest one, and a dit at 1 WPM lasts 1200 ms
+export function estimateKeyingWpm(pressDurations: number[]): number | null {
+    const positive = pressDurations.filter(duration => duration > 0);
+    if (positive.length === 0) return null;
+    const shortest = Math.min(...positive);
+    const dits = positive.filter(duration => duration <= shortest * 2).sort((a, b) => a - b);
+    return 1200 / dits[Math.floor(dits.length / 2)];
+}
+
+export function dayKey(time: number): string {
+    const date = new Date(time);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export interface DailySpeed {
+    day: string; // Local date, YYYY-MM-DD
+    attempts: number;
+    accuracy: number;
+    msPerCharacter: number | null; // Mean response time per character
+    keyingWpm: number | null; // Median over the day's keyed attempts
+}
+
+// One point per day with practice, oldest first
+export function getDailySpeed(entries: AttemptLogEntry[]): DailySpeed[] {
+    const days = new Map<string, AttemptLogEntry[]>();
+    for (const entry of entries) {
+        const key = dayKey(entry.time);
+        days.set(key, [...(days.get(key) ?? []), entry]);
+    }
+    return [...days.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([day, dayEntries]) => {
+            const timed = dayEntries.filter(entry => entry.responseMs !== null && entry.characters.length > 0);
+            const timedCharacters = timed.reduce((sum, entry) => sum + entry.characters.length, 0);
+            const wpms = dayEntries
+                .map(entry => (entry.pressDurations ? estimateKeyingWpm(entry.pressDurations) : null))
+                .filter((wpm): wpm is number => wpm !== null)
+                .sort((a, b) => a - b);
+            return {
+                day,
+                attempts: dayEntries.length,
+                accuracy: dayEntries.filter(entry => entry.correct).length / dayEntries.length,
+                msPerCharacter: timedCharacters > 0 ? timed.reduce((sum, entry) => sum + entry.responseMs!, 0) / timedCharacters : null,
+                keyingWpm: wpms.length > 0 ? wpms[Math.floor(wpms.length / 2)] : null,
+            };
+        });
+}
+
+// --- Streaks ---
+
+export interface Streaks {
+    currentCorrect: number; // Correct answers in a row, up to the latest attempt
+    bestCorrect: number;
+    currentDays: number; // Consecutive practice days ending today or yesterday
+    bestDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getStreaks(entries: AttemptLogEntry[], now: number = Date.now()): Streaks {
+    let currentCorrect = 0;
+    let bestCorrect = 0;
+    for (const entry of entries) {
+        currentCorrect = entry.correct ? currentCorrect + 1 : 0;
+        bestCorrect = Math.max(bestCorrect, currentCorrect);
+    }
+
+    // Walk the distinct practice days; noon avoids daylight-saving edges when stepping a day back
+    const days = [...new Set(entries.map(entry => dayKey(entry.time)))].sort();
+    const previousDay = (day: string) => dayKey(new Date(`${day}T12:00:00`).getTime() - DAY_MS);
+    let run = 0;
+    let bestDays = 0;
+    days.forEach((day, index) => {
+        run = index > 0 && previousDay(day) === days[index - 1] ? run + 1 : 1;
+        bestDays = Math.max(bestDays, run);
+    });
+    const last = days[days.length - 1];
+    const today = dayKey(now);
+    const currentDays = last === today || last === previousDay(today) ? run : 0;
+
+    return { currentCorrect, bestCorrect, currentDays, bestDays };
+}
+
+// --- Totals ---
+
+export interface StatsSummary {
+    attempts: number;
+    correct: number;
+    accuracy: number;
+    characters: number;
+    sessions: number;
+    firstAttempt: number | null;
+}
+
+export function getSummary(entries: AttemptLogEntry[]): StatsSummary {
+    const correct = entries.filter(entry => entry.correct).length;
+    return {
+        attempts: entries.length,
+        correct,
+        accuracy: entries.length > 0 ? correct / entries.length : 0,
+        characters: entries.reduce((sum, entry) => sum + entry.characters.length, 0),
+        sessions: new Set(entries.map(entry => entry.sessionId)).size,
+        firstAttempt: entries[0]?.time ?? null,
+    };
+}
@@ -0,0 +1,57 @@
+import { getCodeTable, isCodeTableId, type CodeTable, type CodeTableId } from './morseAlphabet';
+import { decodeMorse, encodeText } from './morseConverter';
+
+// Free-form translation for /translate. The page state lives in the URL so a
+// translation can be shared as a link and rendered by the loader:
+//   text=HELLO         text typed by the user, Morse derived from it
+//   morse=.... ..      Morse typed by the user, text derived from it
+//   table=cyrillic     code table, otherwise the one from settings; unknown ids are ignored
+
+export type TranslateSource = 'text' | 'morse'; // The side the user typed into
+
+export interface TranslateState {
+    source: TranslateSource;
+    input: string;
+    tableId?: CodeTableId;
+}
+
+export interface Translation {
+    text: string;
+    morse: string;
+    invalid: { start: number; end: number }[]; // Offsets into the input that could not be translated
+}
+
+export const MAX_TRANSLATE_LENGTH = 2000; // Keeps links and server work bounded
+
+export function translate(source: TranslateSource, input: string, table: CodeTable = getCodeTable()): Translation {
+    if (source === 'text') {
+        const encoded = encodeText(input, { table });
+        return {
+            text: input,
+            morse: encoded.morse,
+            invalid: encoded.unmappable.map(({ start, end }) => ({ start, end })),
+        };
+    }
+    const decoded = decodeMorse(input, { table });
+    return {
+        text: decoded.text,
+        morse: input,
+        invalid: decoded.invalid.map(({ start, end }) => ({ start, end })),
+    };
+}
+
+export function buildTranslateQuery({ source, input, tableId }: TranslateState): string {
+    const params = new URLSearchParams();
+    if (input) params.set(source, input);
+    if (tableId) params.set('table', tableId);
+    return params.toString();
+}
+
+// Reads the URL state; Morse wins when both are present, the input is cut to MAX_TRANSLATE_LENGTH
+export function parseTranslateQuery(params: URLSearchParams): TranslateState {
+    const morse = params.get('morse');
+    const source: TranslateSource = morse !== null ? 'morse' : 'text';
+    const input = (morse ?? params.get('text') ?? '').slice(0, MAX_TRANSLATE_LENGTH);
+    const tableId = params.get('table');
+    return { source, input, tableId: isCodeTableId(tableId) ? tableId : undefined };
+}
@@ -0,0 +1,53 @@
+// Bundled English word list for offline word practice.
+// Ranked by how often the words occur in everyday English, most frequent first,
+// so practice can lean towards the words a learner will actually meet on the air.
+// Upper case A-Z only; one- and two-letter function words are left out.
+
+export const COMMON_WORDS: string[] = [
+    'THE', 'AND', 'THAT', 'HAVE', 'FOR', 'NOT', 'WITH', 'YOU', 'THIS', 'BUT',
+    'HIS', 'FROM', 'THEY', 'SAY', 'HER', 'SHE', 'WILL', 'ONE', 'ALL', 'WOULD',
+    'THERE', 'THEIR', 'WHAT', 'OUT', 'ABOUT', 'WHO', 'GET', 'WHICH', 'WHEN', 'MAKE',
+    'CAN', 'LIKE', 'TIME', 'JUST', 'HIM', 'KNOW', 'TAKE', 'PEOPLE', 'INTO', 'YEAR',
+    'YOUR', 'GOOD', 'SOME', 'COULD', 'THEM', 'SEE', 'OTHER', 'THAN', 'THEN', 'NOW',
+    'LOOK', 'ONLY', 'COME', 'ITS', 'OVER', 'THINK', 'ALSO', 'BACK', 'AFTER', 'USE',
+    'TWO', 'HOW', 'OUR', 'WORK', 'FIRST', 'WELL', 'WAY', 'EVEN', 'NEW', 'WANT',
+    'BECAUSE', 'ANY', 'THESE', 'GIVE', 'DAY', 'MOST', 'FIND', 'HERE', 'THING', 'MANY',
+    'RIGHT', 'TELL', 'VERY', 'CALL', 'LIFE', 'HAND', 'PART', 'PLACE', 'CASE', 'WEEK',
+    'POINT', 'WORLD', 'SCHOOL', 'STILL', 'TRY', 'LAST', 'ASK', 'NEED', 'FEEL', 'THREE',
+    'STATE', 'NEVER', 'BECOME', 'HIGH', 'REALLY', 'SOMETHING', 'FAMILY', 'LEAVE', 'PUT',
+    'OLD', 'WHILE', 'MEAN', 'KEEP', 'STUDENT', 'WHY', 'LET', 'GREAT', 'SAME', 'BIG',
+    'GROUP', 'BEGIN', 'SEEM', 'COUNTRY', 'HELP', 'TALK', 'WHERE', 'TURN', 'PROBLEM', 'EVERY',
+    'START', 'SHOW', 'HEAR', 'PLAY', 'RUN', 'MOVE', 'LIVE', 'BELIEVE', 'HOLD', 'BRING',
+    'HAPPEN', 'WRITE', 'SIT', 'STAND', 'LOSE', 'PAY', 'MEET', 'INCLUDE', 'LEARN', 'CHANGE',
+    'LEAD', 'WATCH', 'FOLLOW', 'STOP', 'SPEAK', 'READ', 'ALLOW', 'ADD', 'SPEND', 'GROW',
+    'OPEN', 'WALK', 'WIN', 'OFFER', 'REMEMBER', 'LOVE', 'CONSIDER', 'APPEAR', 'BUY', 'WAIT',
+    'SERVE', 'DIE', 'SEND', 'BUILD', 'STAY', 'FALL', 'CUT', 'REACH', 'KILL', 'RAISE',
+    'PASS', 'SELL', 'DECIDE', 'RETURN', 'EXPLAIN', 'HOPE', 'CARRY', 'BREAK', 'RECEIVE', 'AGREE',
+    'SUPPORT', 'HIT', 'PRODUCE', 'EAT', 'COVER', 'CATCH', 'DRAW', 'CHOOSE', 'HOUSE', 'WATER',
+    'ROOM', 'MOTHER', 'AREA', 'MONEY', 'STORY', 'FACT', 'MONTH', 'LOT', 'STUDY', 'BOOK',
+    'EYE', 'JOB', 'WORD', 'BUSINESS', 'ISSUE', 'SIDE', 'KIND', 'HEAD', 'SERVICE', 'FRIEND',
+    'FATHER', 'POWER', 'HOUR', 'GAME', 'LINE', 'END', 'MEMBER', 'LAW', 'CAR', 'CITY',
+    'NAME', 'TEAM', 'MINUTE', 'IDEA', 'KID', 'BODY', 'PARENT', 'FACE', 'OTHERS',
+    'LEVEL', 'OFFICE', 'DOOR', 'HEALTH', 'PERSON', 'ART', 'WAR', 'HISTORY', 'PARTY', 'RESULT',
+    'MORNING', 'REASON', 'RESEARCH', 'GIRL', 'GUY', 'MOMENT', 'AIR', 'TEACHER', 'FORCE', 'EDUCATION',
+    'FOOT', 'BOY', 'AGE', 'POLICY', 'MUSIC', 'MARKET', 'SENSE', 'NATION', 'PLAN', 'COLLEGE',
+    'INTEREST', 'DEATH', 'EXPERIENCE', 'EFFECT', 'CLASS', 'CONTROL', 'CARE', 'FIELD', 'SHORT', 'LONG',
+    'LITTLE', 'SMALL', 'LARGE', 'NEXT', 'EARLY', 'YOUNG', 'IMPORTANT', 'FEW', 'PUBLIC', 'BAD',
+    'ABLE', 'LATE', 'HARD', 'MAJOR', 'BETTER', 'BEST', 'FREE', 'STRONG', 'WHOLE', 'CLEAR',
+    'SURE', 'REAL', 'BLACK', 'WHITE', 'RED', 'BLUE', 'GREEN', 'FULL', 'SPECIAL', 'EASY',
+    'CERTAIN', 'PERSONAL', 'DIFFICULT', 'AVAILABLE', 'LIKELY', 'NATIONAL', 'LOCAL', 'HUMAN', 'TRUE',
+    'LIGHT', 'NIGHT', 'NORTH', 'SOUTH', 'EAST', 'WEST', 'RADIO', 'SIGNAL', 'SOUND', 'TONE',
+    'CODE', 'MORSE', 'KEY', 'STATION', 'ANTENNA', 'WAVE', 'BAND', 'NOISE', 'REPORT',
+    'WEATHER', 'RAIN', 'SNOW', 'WIND', 'SUN', 'MOON', 'STAR', 'SKY', 'CLOUD', 'STORM',
+    'RIVER', 'SEA', 'LAKE', 'HILL', 'TREE', 'FOREST', 'ROAD', 'TRAIN', 'SHIP', 'BOAT',
+    'PLANE', 'HOME', 'TOWN', 'STREET', 'BRIDGE', 'GARDEN', 'FARM', 'HORSE', 'DOG', 'CAT',
+    'BIRD', 'FISH', 'FOOD', 'BREAD', 'MILK', 'TEA', 'COFFEE', 'APPLE', 'SUGAR', 'SALT',
+    'TABLE', 'CHAIR', 'WINDOW', 'WALL', 'FLOOR', 'PAPER', 'LETTER', 'PHONE', 'CLOCK', 'MAP',
+    'QUICK', 'SLOW', 'WARM', 'COLD', 'HOT', 'DARK', 'BRIGHT', 'QUIET', 'LOUD', 'HAPPY',
+    'FRIENDLY', 'SIMPLE', 'READY', 'SAFE', 'CLEAN', 'FAST', 'NEAR', 'FAR', 'ABOVE', 'BELOW',
+    'AGAIN', 'ALWAYS', 'OFTEN', 'SOON', 'TODAY', 'TONIGHT', 'TOMORROW', 'AROUND', 'ALONG', 'TOGETHER',
+    'THANKS', 'PLEASE', 'HELLO', 'WELCOME', 'GOODBYE', 'SORRY', 'MAYBE', 'NOTHING', 'EVERYONE', 'ANSWER',
+    'QUESTION', 'NUMBER', 'MESSAGE', 'SPEED', 'PRACTICE', 'LISTEN', 'COPY', 'REPEAT', 'SPELL', 'LESSON',
+    'DREAM', 'SMILE', 'LAUGH', 'DANCE', 'SING', 'SWIM', 'JUMP', 'CLIMB', 'DRIVE', 'FLY',
+    'SLEEP', 'WAKE', 'CLOSE', 'PULL', 'PUSH', 'THROW', 'FIX', 'PAINT', 'COOK',
+];
@@ -0,0 +1,57 @@
+import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory } from "@google/generative-ai";
+import { createLlmWordProvider, createWordListProvider, withWordCache, type LlmClient, type WordProvider } from './wordProviders';
+
+// Server-side provider configuration.
+// WORD_PROVIDERS lists the providers to try, in order, e.g. "gemini,wordlist".
+// The default uses Gemini when GEMINI_API_KEY is set and always ends with the
+// bundled word list, so the chain works with no key and no network.
+
+export type WordProviderId = 'gemini' | 'wordlist';
+
+const DEFAULT_PROVIDER_ORDER: WordProviderId[] = ['gemini', 'wordlist'];
+
+const safetySettings = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+export function createGeminiClient(apiKey: string, modelName = 'gemini-pro'): LlmClient {
+    const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+    return {
+        async generate(prompt) {
+            const result = await model.generateContent({
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                safetySettings,
+            });
+            return result.response.text();
+        },
+    };
+}
+
+export function parseProviderOrder(value: string | undefined): WordProviderId[] {
+    if (!value) return DEFAULT_PROVIDER_ORDER;
+    const ids = value.split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+    const unknown = ids.filter(id => id !== 'gemini' && id !== 'wordlist');
+    if (unknown.length > 0) console.warn(`Ignoring unknown word providers in WORD_PROVIDERS: ${unknown.join(', ')}`);
+    const known = ids.filter((id): id is WordProviderId => id === 'gemini' || id === 'wordlist');
+    return known.length > 0 ? known : DEFAULT_PROVIDER_ORDER;
+}
+
+let configured: WordProvider[] | null = null;
+
+// Providers from the environment, built once per server process so the word
+// cache is shared by all requests. Gemini is skipped without an API key rather
+// than failing on every request.
+export function getWordProviders(env: { [key: string]: string | undefined } = process.env): WordProvider[] {
+    if (configured && env === process.env) return configured;
+    const providers = parseProviderOrder(env.WORD_PROVIDERS).flatMap((id): WordProvider[] => {
+        if (id === 'wordlist') return [createWordListProvider()];
+        if (!env.GEMINI_API_KEY) return [];
+        // Cached, since every Gemini call costs a round trip and quota
+        return [withWordCache(createLlmWordProvider(createGeminiClient(env.GEMINI_API_KEY, env.GEMINI_MODEL), 'gemini'))];
+    });
+    if (env === process.env) configured = providers;
+    return providers;
+}
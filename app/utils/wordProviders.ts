@@ -0,0 +1,201 @@
+import { COMMON_WORDS } from './wordList';
+
+// Word sources for word practice.
+// Every source implements WordProvider. getWordFromChain tries a list of
+// providers in order and moves on when one fails, so a missing API key or a
+// network error never leaves the page without a word.
+// Nothing here touches the network: LLM-backed providers receive an LlmClient,
+// which tests and offline setups can replace with a fake.
+
+export interface WordRequest {
+    minLength: number;
+    maxLength: number;
+    allowedCharacters?: string[]; // Only build words from these letters, e.g. the learner's known characters
+    difficultCharacters?: string[]; // Letters the learner struggles with
+    difficultMix?: number; // Minimum share (0..1) of a word's letters that come from difficultCharacters
+    exclude?: string[]; // Words already seen this session
+    random?: () => number;
+}
+
+export interface WordProvider {
+    name: string;
+    getWord: (request: WordRequest) => Promise<string>;
+}
+
+export interface ProvidedWord {
+    word: string;
+    source: string; // Name of the provider that supplied the word
+}
+
+// Share of the word's letters that are in the difficult set, 0 when there is none
+export function difficultShare(word: string, difficultCharacters: string[] = []): number {
+    if (word.length === 0 || difficultCharacters.length === 0) return 0;
+    const difficult = new Set(difficultCharacters.map(char => char.toUpperCase()));
+    return Array.from(word).filter(char => difficult.has(char)).length / word.length;
+}
+
+// True when the word satisfies every constraint of the request. Providers are
+// free to ignore hints, so every word is checked with this before it is served.
+export function isValidWord(word: string, request: WordRequest): boolean {
+    if (!/^[A-Z]+$/.test(word)) return false;
+    if (word.length < request.minLength || word.length > request.maxLength) return false;
+    if (request.exclude?.includes(word)) return false;
+    if (request.allowedCharacters) {
+        const allowed = new Set(request.allowedCharacters.map(char => char.toUpperCase()));
+        if (!Array.from(word).every(char => allowed.has(char))) return false;
+    }
+    if (request.difficultMix && request.difficultCharacters?.length) {
+        return difficultShare(word, request.difficultCharacters) >= request.difficultMix;
+    }
+    return true;
+}
+
+// Human-readable summary of the constraints, for error messages
+function describeRequest(request: WordRequest): string {
+    const parts = [`${request.minLength}-${request.maxLength} letters`];
+    if (request.allowedCharacters) parts.push(`using ${request.allowedCharacters.join('')}`);
+    if (request.difficultMix && request.difficultCharacters?.length) {
+        parts.push(`at least ${Math.round(request.difficultMix * 100)}% from ${request.difficultCharacters.join('')}`);
+    }
+    if (request.exclude?.length) parts.push(`excluding ${request.exclude.length} seen word(s)`);
+    return parts.join(', ');
+}
+
+// --- Bundled word list ---
+
+// Picks from the bundled frequency-ranked list. Candidates are drawn with a
+// bias towards the start of the list (random()² of the index range), so common
+// words come up more often without the rare ones disappearing.
+export function createWordListProvider(words: string[] = COMMON_WORDS, name = 'wordlist'): WordProvider {
+    return {
+        name,
+        async getWord(request) {
+            const random = request.random ?? Math.random;
+            const candidates = words.filter(word => isValidWord(word, request));
+            if (candidates.length === 0) {
+                throw new Error(`No word in the list fits ${describeRequest(request)}.`);
+            }
+            const r = random();
+            return candidates[Math.floor(r * r * candidates.length)];
+        },
+    };
+}
+
+// --- Known-character filter ---
+
+// Restricts another provider to the learner's known characters. The inner
+// provider is asked with allowedCharacters set, and its answer is checked again
+// because remote providers do not always honour the restriction.
+export function withKnownCharacters(provider: WordProvider, knownCharacters: string[], attempts = 3): WordProvider {
+    return {
+        name: `${provider.name}+known`,
+        async getWord(request) {
+            const restricted = { ...request, allowedCharacters: knownCharacters };
+            for (let i = 0; i < attempts; i++) {
+                const word = await provider.getWord(restricted);
+                if (isValidWord(word, restricted)) return word;
+            }
+            throw new Error(`${provider.name} returned no word fitting ${describeRequest(restricted)}.`);
+        },
+    };
+}
+
+// --- LLM-backed provider ---
+
+// Anything that turns a prompt into text; the Gemini client lives in wordProviders.server.ts
+export interface LlmClient {
+    generate: (prompt: string) => Promise<string>;
+}
+
+// Only a sample of excluded words goes into the prompt; the server check catches the rest
+const PROMPT_EXCLUDE_LIMIT = 20;
+
+export function buildWordPrompt(request: WordRequest): string {
+    const lines = [
+        `Generate a single, common, simple English word between ${request.minLength} and ${request.maxLength} letters long, suitable for Morse code practice. Only return the word itself, nothing else.`,
+        request.allowedCharacters
+            ? `Use only these letters: ${request.allowedCharacters.join(', ')}.`
+            : 'Ensure it contains only standard English letters.',
+    ];
+    if (request.difficultMix && request.difficultCharacters?.length) {
+        lines.push(`At least ${Math.round(request.difficultMix * 100)}% of its letters should be from: ${request.difficultCharacters.join(', ')}.`);
+    }
+    if (request.exclude?.length) {
+        lines.push(`Do not use any of these words: ${request.exclude.slice(-PROMPT_EXCLUDE_LIMIT).join(', ')}.`);
+    }
+    return lines.join(' ');
+}
+
+export function createLlmWordProvider(client: LlmClient, name = 'llm'): WordProvider {
+    return {
+        name,
+        async getWord(request) {
+            const text = (await client.generate(buildWordPrompt(request))).trim().toUpperCase();
+            if (!isValidWord(text, request)) {
+                throw new Error(`${name} returned an unusable word: "${text.slice(0, 40)}"`);
+            }
+            return text;
+        },
+    };
+}
+
+// --- Cache ---
+
+export interface WordCacheOptions {
+    minChoices: number; // Serve from the cache once it holds this many fitting words
+    maxSize: number; // Oldest words are dropped beyond this
+}
+
+export const DEFAULT_WORD_CACHE_OPTIONS: WordCacheOptions = { minChoices: 8, maxSize: 500 };
+
+// Remembers every word a slow or metered provider returned, across requests.
+// Requests are answered from the remembered words when enough of them fit, and
+// identical requests in flight at the same time share one provider call.
+export function withWordCache(provider: WordProvider, options: Partial<WordCacheOptions> = {}): WordProvider {
+    const { minChoices, maxSize } = { ...DEFAULT_WORD_CACHE_OPTIONS, ...options };
+    const words: string[] = []; // Unique, oldest first
+    const inFlight = new Map<string, Promise<string>>();
+
+    const remember = (word: string) => {
+        if (words.includes(word)) return;
+        words.push(word);
+        if (words.length > maxSize) words.shift();
+    };
+
+    return {
+        name: provider.name,
+        async getWord(request) {
+            const fitting = words.filter(word => isValidWord(word, request));
+            if (fitting.length >= minChoices) {
+                return fitting[Math.floor((request.random ?? Math.random)() * fitting.length)];
+            }
+
+            const { minLength, maxLength, allowedCharacters, difficultCharacters, difficultMix, exclude } = request;
+            const key = JSON.stringify([minLength, maxLength, allowedCharacters, difficultCharacters, difficultMix, exclude]);
+            let pending = inFlight.get(key);
+            if (!pending) {
+                pending = provider.getWord(request).finally(() => inFlight.delete(key));
+                inFlight.set(key, pending);
+            }
+            const word = await pending;
+            remember(word);
+            return word;
+        },
+    };
+}
+
+// --- Chain ---
+
+// Tries each provider in order and returns the first word, with the provider's
+// name. Throws only when every provider failed, listing each failure.
+export async function getWordFromChain(providers: WordProvider[], request: WordRequest): Promise<ProvidedWord> {
+    const failures: string[] = [];
+    for (const provider of providers) {
+        try {
+            return { word: await provider.getWord(request), source: provider.name };
+        } catch (error) {
+            failures.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    throw new Error(`No word provider succeeded (${failures.join('; ') || 'none configured'}).`);
+}
@@ -0,0 +1,45 @@
+import type { CharacterStats } from './progressStore';
+
+// Query string for the /learn/words loader:
+//   chars=KMURES     only these letters
+//   min=3&max=6      word length range
+//   difficult=QZ&mix=0.3  at least 30% of the letters from QZ
+//   exclude=HOUSE,TREE    words already seen this session
+// The loader validates every value again; this only builds the URL.
+
+export interface WordQuery {
+    allowedCharacters?: string[];
+    minLength?: number;
+    maxLength?: number;
+    difficultCharacters?: string[];
+    difficultMix?: number;
+    exclude?: string[];
+}
+
+export const MAX_EXCLUDED_WORDS = 200; // Keeps the URL and the server-side check bounded
+
+export function buildWordQuery(query: WordQuery): string {
+    const params = new URLSearchParams();
+    if (query.allowedCharacters?.length) params.set('chars', query.allowedCharacters.join(''));
+    if (query.minLength !== undefined) params.set('min', String(query.minLength));
+    if (query.maxLength !== undefined) params.set('max', String(query.maxLength));
+    if (query.difficultCharacters?.length && query.difficultMix) {
+        params.set('difficult', query.difficultCharacters.join(''));
+        params.set('mix', String(query.difficultMix));
+    }
+    if (query.exclude?.length) params.set('exclude', query.exclude.slice(-MAX_EXCLUDED_WORDS).join(','));
+    return params.toString();
+}
+
+// Letters with the lowest accuracy, weakest first. Letters with too few attempts
+// to judge, or already at the accuracy target, are left out.
+export function getWeakCharacters(
+    stats: { [symbol: string]: CharacterStats },
+    { minAttempts = 3, targetAccuracy = 0.9, limit = 5 }: { minAttempts?: number; targetAccuracy?: number; limit?: number } = {},
+): string[] {
+    return Object.entries(stats)
+        .filter(([symbol, s]) => /^[A-Z]$/.test(symbol) && s.attempts >= minAttempts && s.correct / s.attempts < targetAccuracy)
+        .sort(([, a], [, b]) => a.correct / a.attempts - b.correct / b.attempts)
+        .slice(0, limit)
+        .map(([symbol]) => symbol);
+}
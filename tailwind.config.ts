@@ -2,6 +2,14 @@ import type { Config } from "tailwindcss";
 
 export default {
   content: ["./app/**/{**,.client,.server}/**/*.{js,jsx,ts,tsx}"],
+  // Follow the OS unless the settings page forced a theme with a class on <html>
+  darkMode: [
+    "variant",
+    [
+      "@media (prefers-color-scheme: dark) { &:not(:where(.light, .light *)) }",
+      "&:where(.dark, .dark *)",
+    ],
+  ],
   theme: {
     extend: {
       fontFamily: {